@@ -3,24 +3,42 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import BackendProvider from "@/components/BackendProvider";
+import ScopeProvider from "@/components/ScopeProvider";
 import Index from "./pages/Index";
+import Settings from "./pages/Settings";
+import HistoryPage from "./pages/History";
+import ComparePage from "./pages/Compare";
+import FindingsPage from "./pages/Findings";
+import SchedulesPage from "./pages/Schedules";
+import ScopePage from "./pages/Scope";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <BackendProvider>
+      <ScopeProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/history" element={<HistoryPage />} />
+              <Route path="/compare" element={<ComparePage />} />
+              <Route path="/findings" element={<FindingsPage />} />
+              <Route path="/schedules" element={<SchedulesPage />} />
+              <Route path="/scope" element={<ScopePage />} />
+              <Route path="/settings" element={<Settings />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </ScopeProvider>
+    </BackendProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,70 @@
+import type { ReactNode } from "react";
+import { NavLink } from "react-router-dom";
+import { AlertTriangle, Shield } from "lucide-react";
+import { useBackend } from "@/contexts/backend-context";
+
+const NAV_ITEMS = [
+  { to: "/", label: "Scan" },
+  { to: "/history", label: "History" },
+  { to: "/findings", label: "Findings" },
+  { to: "/schedules", label: "Schedules" },
+  { to: "/scope", label: "Scope" },
+  { to: "/settings", label: "Settings" },
+];
+
+const AppShell = ({ children }: { children: ReactNode }) => {
+  const { demoMode, setDemoMode } = useBackend();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white relative overflow-hidden">
+      {/* Animated background elements */}
+      <div className="absolute inset-0 w-full h-full overflow-hidden">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-violet-500/10 rounded-full mix-blend-normal filter blur-[128px] animate-pulse" />
+        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-indigo-500/10 rounded-full mix-blend-normal filter blur-[128px] animate-pulse delay-700" />
+        <div className="absolute top-1/4 right-1/3 w-64 h-64 bg-fuchsia-500/10 rounded-full mix-blend-normal filter blur-[96px] animate-pulse delay-1000" />
+      </div>
+
+      {demoMode && (
+        <div className="relative z-20 bg-amber-500/15 border-b border-amber-500/30 text-amber-200 text-sm">
+          <div className="container mx-auto px-6 py-2 flex items-center justify-center gap-3">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>Demo mode is on. Scans return sample data and nothing is actually scanned.</span>
+            <button
+              onClick={() => setDemoMode(false)}
+              className="underline underline-offset-2 hover:text-white transition-colors"
+            >
+              Switch to live
+            </button>
+          </div>
+        </div>
+      )}
+
+      <nav className="relative z-10 container mx-auto px-6 pt-6 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-white/80">
+          <Shield className="w-5 h-5 text-violet-400" />
+          <span className="font-medium">SecureScan</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {NAV_ITEMS.map((item) => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end
+              className={({ isActive }) =>
+                `px-3 py-1.5 rounded-lg text-sm transition-all ${isActive ? 'bg-white/10 text-white' : 'text-white/60 hover:text-white hover:bg-white/5'}`
+              }
+            >
+              {item.label}
+            </NavLink>
+          ))}
+        </div>
+      </nav>
+
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default AppShell;
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { BackendContext, type BackendContextValue, type ConnectionTestResult } from "@/contexts/backend-context";
+import {
+  clearConfigOverrides,
+  loadBaseConfig,
+  loadConfigOverrides,
+  loadDemoMode,
+  loadEnvConfig,
+  resolveConfig,
+  saveConfigOverrides,
+  saveDemoMode,
+  type BackendConfig,
+  type BackendConfigOverrides,
+} from "@/lib/config";
+import { createScanClient } from "@/lib/scan-client";
+
+const SCAN_TIMEOUT_MS = 10000;
+const SCAN_RETRIES = 2;
+const HEALTH_TIMEOUT_MS = 5000;
+
+const BackendProvider = ({ children }: { children: ReactNode }) => {
+  const [baseConfig, setBaseConfig] = useState<BackendConfig>(loadEnvConfig);
+  const [overrides, setOverrides] = useState<BackendConfigOverrides>(loadConfigOverrides);
+  const [loading, setLoading] = useState(true);
+  const [backendConnected, setBackendConnected] = useState(false);
+  const [demoMode, setDemoModeState] = useState(loadDemoMode);
+
+  const config = useMemo(() => resolveConfig(baseConfig, overrides), [baseConfig, overrides]);
+
+  const client = useMemo(
+    () => createScanClient({ baseUrl: config.backendUrl, authToken: config.authToken, timeoutMs: SCAN_TIMEOUT_MS, retries: SCAN_RETRIES }),
+    [config]
+  );
+
+  const testConnection = useCallback(
+    async (candidate?: BackendConfig): Promise<ConnectionTestResult> => {
+      const target = candidate ?? config;
+      // Only the saved config decides whether the app counts as connected.
+      const report = (connected: boolean) => {
+        if (!candidate) setBackendConnected(connected);
+      };
+      const healthClient = createScanClient({ baseUrl: target.backendUrl, authToken: target.authToken, timeoutMs: HEALTH_TIMEOUT_MS });
+      const startedAt = performance.now();
+      try {
+        const health = await healthClient.health();
+        report(true);
+        return { ok: true, latencyMs: Math.round(performance.now() - startedAt), health };
+      } catch (error) {
+        report(false);
+        return { ok: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    },
+    [config]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBaseConfig().then((loaded) => {
+      if (cancelled) return;
+      setBaseConfig(loaded);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Re-check reachability whenever the effective endpoint changes.
+  useEffect(() => {
+    if (loading) return;
+    testConnection();
+  }, [loading, testConnection]);
+
+  const saveOverrides = useCallback((next: BackendConfigOverrides) => {
+    saveConfigOverrides(next);
+    setOverrides(loadConfigOverrides());
+  }, []);
+
+  const setDemoMode = useCallback((enabled: boolean) => {
+    saveDemoMode(enabled);
+    setDemoModeState(enabled);
+  }, []);
+
+  const resetOverrides = useCallback(() => {
+    clearConfigOverrides();
+    setOverrides({});
+  }, []);
+
+  const value = useMemo<BackendContextValue>(
+    () => ({
+      config,
+      baseConfig,
+      overrides,
+      loading,
+      client,
+      backendConnected,
+      setBackendConnected,
+      demoMode,
+      setDemoMode,
+      saveOverrides,
+      resetOverrides,
+      testConnection,
+    }),
+    [config, baseConfig, overrides, loading, client, backendConnected, demoMode, setDemoMode, saveOverrides, resetOverrides, testConnection]
+  );
+
+  return <BackendContext.Provider value={value}>{children}</BackendContext.Provider>;
+};
+
+export default BackendProvider;
@@ -0,0 +1,73 @@
+import { useCallback, useMemo, useRef, useState, type ReactNode } from "react";
+import { ScopeContext, type ScopeContextValue } from "@/contexts/scope-context";
+import type { ScanAuthorization } from "@/lib/scan-client";
+import { loadDenyList, safetyFlag, saveDenyList as persistDenyList } from "@/lib/safeguards";
+import { compileRules, compileScope, loadScope, saveScope as persistScope, scopeViolation, type Scope } from "@/lib/scope";
+
+const sameEntries = (a: string[], b: string[]) => a.length === b.length && a.every((entry, index) => entry === b[index]);
+
+const ScopeProvider = ({ children }: { children: ReactNode }) => {
+  const [scope, setScope] = useState<Scope>(loadScope);
+  const scopeRef = useRef(scope);
+  const [denyList, setDenyList] = useState<string[]>(loadDenyList);
+
+  const update = useCallback((next: Scope) => {
+    persistScope(next);
+    scopeRef.current = next;
+    setScope(next);
+  }, []);
+
+  const compiled = useMemo(() => compileScope(scope), [scope]);
+  const compiledDenyList = useMemo(() => compileRules(denyList), [denyList]);
+
+  const saveScope = useCallback(
+    (next: Scope) => {
+      const current = scopeRef.current;
+      const unchanged =
+        next.engagementRef === current.engagementRef &&
+        sameEntries(next.allowed, current.allowed) &&
+        sameEntries(next.excluded, current.excluded);
+      update({ ...next, acknowledgement: unchanged ? current.acknowledgement : undefined });
+    },
+    [update]
+  );
+
+  const acknowledge = useCallback(
+    (reference: string) => {
+      const acknowledgement: ScanAuthorization = { reference: reference.trim(), acknowledgedAt: new Date().toISOString() };
+      update({ ...scopeRef.current, engagementRef: acknowledgement.reference, acknowledgement });
+      return acknowledgement;
+    },
+    [update]
+  );
+
+  const revokeAcknowledgement = useCallback(() => {
+    update({ ...scopeRef.current, acknowledgement: undefined });
+  }, [update]);
+
+  const getAuthorization = useCallback(() => scopeRef.current.acknowledgement, []);
+
+  const checkTargets = useCallback(
+    (targets: string[]) => [...new Set(targets.flatMap((target) => scopeViolation(target, compiled) ?? []))],
+    [compiled]
+  );
+
+  const saveDenyList = useCallback((entries: string[]) => {
+    persistDenyList(entries);
+    setDenyList(entries);
+  }, []);
+
+  const checkSafety = useCallback(
+    (targets: string[]) => targets.flatMap((target) => safetyFlag(target, compiledDenyList) ?? []),
+    [compiledDenyList]
+  );
+
+  const value = useMemo<ScopeContextValue>(
+    () => ({ scope, saveScope, acknowledge, revokeAcknowledgement, getAuthorization, checkTargets, denyList, saveDenyList, checkSafety }),
+    [scope, saveScope, acknowledge, revokeAcknowledgement, getAuthorization, checkTargets, denyList, saveDenyList, checkSafety]
+  );
+
+  return <ScopeContext.Provider value={value}>{children}</ScopeContext.Provider>;
+};
+
+export default ScopeProvider;
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Layers, Shield, Square, Zap } from "lucide-react";
+import PipelineConfigForm, { type PipelineSelection } from "@/components/pipeline/PipelineConfigForm";
+import StageRunResults from "@/components/pipeline/StageRunResults";
+import { useBackend } from "@/contexts/backend-context";
+import { useScope } from "@/contexts/scope-context";
+import { usePipeline } from "@/hooks/use-pipeline";
+import type { ScanProfilesApi } from "@/hooks/use-scan-profiles";
+import { useToast } from "@/hooks/use-toast";
+import type { ScanInfo } from "@/lib/pdf-report";
+import type { PipelineConfig } from "@/lib/pipeline";
+import { listScanners } from "@/scanners";
+
+interface AssessmentPanelProps {
+  target: string;
+  profilesApi: ScanProfilesApi;
+  /** Runs the assessment once the engagement has been acknowledged. */
+  authorize: (run: () => void) => void;
+  /** Lets the page lock its own controls while stages are running. */
+  onRunningChange?: (running: boolean) => void;
+}
+
+const initialSelection = (): PipelineSelection => ({
+  discoveryProfileId: `builtin:${listScanners().find((scanner) => scanner.category === 'network')?.id}`,
+  followUps: listScanners()
+    .filter((scanner) => scanner.category === 'web')
+    .map((scanner) => ({ profileId: `builtin:${scanner.id}`, enabled: true })),
+});
+
+const AssessmentPanel = ({ target, profilesApi, authorize, onRunningChange }: AssessmentPanelProps) => {
+  const [selection, setSelection] = useState<PipelineSelection>(initialSelection);
+  const [lastRun, setLastRun] = useState<ScanInfo | null>(null);
+  const { demoMode } = useBackend();
+  const { getAuthorization } = useScope();
+  const { stages, isRunning, progress, start, stop } = usePipeline();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    onRunningChange?.(isRunning);
+  }, [isRunning, onRunningChange]);
+
+  const findProfile = (id: string) => profilesApi.profiles.find((profile) => profile.id === id);
+
+  const buildConfig = (): PipelineConfig | null => {
+    const discovery = findProfile(selection.discoveryProfileId);
+    if (!discovery) return null;
+    return {
+      discovery: { scanType: discovery.scanType, options: discovery.options },
+      followUps: selection.followUps
+        .filter((followUp) => followUp.enabled)
+        .map((followUp) => findProfile(followUp.profileId))
+        .filter(Boolean)
+        .map((profile) => ({ scanType: profile.scanType, options: profile.options })),
+    };
+  };
+
+  const runAssessment = async () => {
+    const config = buildConfig();
+    if (!target.trim() || !config) return;
+
+    const finished = await start(target.trim(), config);
+    const status = finished.some((stage) => stage.status === 'cancelled' || stage.status === 'skipped')
+      ? 'cancelled'
+      : finished.some((stage) => stage.status === 'failed') ? 'failed' : 'completed';
+    setLastRun({
+      type: 'assessment',
+      target: target.trim(),
+      timestamp: new Date(),
+      status,
+      demo: demoMode,
+      authorization: demoMode ? undefined : getAuthorization()
+    });
+
+    const total = finished.reduce((sum, stage) => sum + stage.results.length, 0);
+    toast({
+      title: status === 'completed' ? "Assessment completed" : status === 'failed' ? "Assessment finished with errors" : "Assessment stopped",
+      description: `${finished.length} stages, ${total} results${demoMode ? ' (demo data)' : ''}`,
+      variant: status === 'failed' ? "destructive" : undefined
+    });
+  };
+
+  const handleRun = () => authorize(() => void runAssessment());
+
+  return (
+    <>
+      <div className="mt-6 p-4 rounded-xl border border-white/10 bg-white/[0.02]">
+        <PipelineConfigForm profiles={profilesApi.profiles} value={selection} onChange={setSelection} disabled={isRunning} />
+      </div>
+
+      <div className="mt-6 flex justify-center gap-3">
+        <motion.button
+          onClick={handleRun}
+          disabled={!target.trim() || isRunning}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className={`
+            px-8 py-3 rounded-xl font-medium text-sm transition-all flex items-center gap-2
+            ${target.trim() && !isRunning
+              ? 'bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white shadow-lg shadow-violet-500/25'
+              : 'bg-white/5 text-white/40 cursor-not-allowed'
+            }
+          `}
+        >
+          {isRunning ? <Zap className="w-4 h-4 animate-spin" /> : <Shield className="w-4 h-4" />}
+          {isRunning ? 'Assessing...' : 'Run Full Assessment'}
+        </motion.button>
+        {isRunning && (
+          <motion.button
+            onClick={stop}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="px-6 py-3 rounded-xl font-medium text-sm transition-all flex items-center gap-2 bg-white/5 hover:bg-red-500/20 text-white/70 hover:text-red-300 border border-white/10 hover:border-red-500/30"
+          >
+            <Square className="w-4 h-4" />
+            Stop
+          </motion.button>
+        )}
+      </div>
+
+      {stages.length > 0 && (
+        <div className="mt-8 pt-8 border-t border-white/5">
+          <StageRunResults
+            title="Assessment"
+            icon={<Layers className="w-5 h-5 text-violet-400" />}
+            stages={stages}
+            isRunning={isRunning}
+            progress={progress}
+            info={lastRun}
+            combined
+          />
+          {lastRun && !isRunning && (
+            <Link
+              to={`/findings?target=${encodeURIComponent(lastRun.target)}`}
+              className="mt-4 inline-flex items-center gap-2 text-sm text-violet-300 hover:text-violet-200 transition-colors"
+            >
+              <Layers className="w-4 h-4" />
+              View merged findings across scanners
+            </Link>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AssessmentPanel;
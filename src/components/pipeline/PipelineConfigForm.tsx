@@ -0,0 +1,81 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import type { ScanProfile } from "@/lib/profiles";
+import { requireScanner } from "@/scanners";
+
+export interface PipelineSelection {
+  discoveryProfileId: string;
+  followUps: { profileId: string; enabled: boolean }[];
+}
+
+interface PipelineConfigFormProps {
+  profiles: ScanProfile[];
+  value: PipelineSelection;
+  onChange: (value: PipelineSelection) => void;
+  disabled?: boolean;
+}
+
+const selectClassName = "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50";
+
+const profileLabel = (profile: ScanProfile) =>
+  profile.builtIn ? `${requireScanner(profile.scanType).toolName} defaults` : `${profile.name} (${requireScanner(profile.scanType).toolName})`;
+
+const PipelineConfigForm = ({ profiles, value, onChange, disabled }: PipelineConfigFormProps) => {
+  const discoveryProfiles = profiles.filter((profile) => requireScanner(profile.scanType).category === 'network');
+  const webProfiles = profiles.filter((profile) => requireScanner(profile.scanType).category === 'web');
+
+  const updateFollowUp = (index: number, change: Partial<PipelineSelection['followUps'][number]>) =>
+    onChange({
+      ...value,
+      followUps: value.followUps.map((followUp, current) => (current === index ? { ...followUp, ...change } : followUp)),
+    });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <p className="text-sm font-medium text-white/80 mb-2">1. Discovery</p>
+        <select
+          aria-label="Discovery profile"
+          value={value.discoveryProfileId}
+          onChange={(e) => onChange({ ...value, discoveryProfileId: e.target.value })}
+          className={selectClassName}
+          disabled={disabled}
+        >
+          {discoveryProfiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profileLabel(profile)}</option>
+          ))}
+        </select>
+        <p className="mt-2 text-xs text-white/40">Finds open ports; web services feed the next stage.</p>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-white/80 mb-2">2. Against each HTTP/HTTPS port</p>
+        <div className="space-y-2">
+          {value.followUps.map((followUp, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <Checkbox
+                checked={followUp.enabled}
+                onCheckedChange={(checked) => updateFollowUp(index, { enabled: checked === true })}
+                disabled={disabled}
+                aria-label="Run this stage"
+                className="border-white/30 data-[state=checked]:bg-violet-500 data-[state=checked]:border-violet-500"
+              />
+              <select
+                aria-label="Follow-up profile"
+                value={followUp.profileId}
+                onChange={(e) => updateFollowUp(index, { profileId: e.target.value })}
+                className={selectClassName}
+                disabled={disabled || !followUp.enabled}
+              >
+                {webProfiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>{profileLabel(profile)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineConfigForm;
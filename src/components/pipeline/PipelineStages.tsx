@@ -0,0 +1,43 @@
+import { motion } from "framer-motion";
+import { AlertTriangle, CheckCircle, Clock, MinusCircle, Square, Zap } from "lucide-react";
+import type { PipelineStage, PipelineStageStatus } from "@/lib/pipeline";
+import { requireScanner } from "@/scanners";
+
+const StatusIcon = ({ status }: { status: PipelineStageStatus }) => {
+  switch (status) {
+    case 'completed': return <CheckCircle className="w-4 h-4 text-green-400" />;
+    case 'failed': return <AlertTriangle className="w-4 h-4 text-red-400" />;
+    case 'cancelled': return <Square className="w-4 h-4 text-gray-400" />;
+    case 'skipped': return <MinusCircle className="w-4 h-4 text-gray-500" />;
+    case 'pending': return <Clock className="w-4 h-4 text-white/40" />;
+    default:
+      return (
+        <motion.div animate={{ rotate: 360 }} transition={{ duration: 1, repeat: Infinity, ease: "linear" }}>
+          <Zap className="w-4 h-4 text-violet-400" />
+        </motion.div>
+      );
+  }
+};
+
+const PipelineStages = ({ stages }: { stages: PipelineStage[] }) => (
+  <ol className="space-y-2">
+    {stages.map((stage, index) => (
+      <li key={stage.id} className="flex items-center gap-3 px-4 py-3 bg-white/5 rounded-xl border border-white/10">
+        <span className="text-xs text-white/40 font-mono w-5">{index + 1}</span>
+        <StatusIcon status={stage.status} />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white">
+            {requireScanner(stage.scanType).toolName}
+            <span className="ml-2 text-violet-300 font-mono">{stage.target}</span>
+          </p>
+          {stage.error && <p className="text-xs text-red-300 truncate">{stage.error}</p>}
+        </div>
+        <span className="text-xs text-white/60">
+          {stage.status === 'pending' || stage.status === 'skipped' ? stage.status : `${stage.results.length} results`}
+        </span>
+      </li>
+    ))}
+  </ol>
+);
+
+export default PipelineStages;
@@ -0,0 +1,172 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { motion } from "framer-motion";
+import { Download, FileText } from "lucide-react";
+import PipelineStages from "@/components/pipeline/PipelineStages";
+import FindingDetailSheet from "@/components/results/FindingDetailSheet";
+import MergedFindingList from "@/components/results/MergedFindingList";
+import ScanProgress from "@/components/scan/ScanProgress";
+import type { ScanProgressState } from "@/hooks/use-scan-job";
+import { DEMO_NOTICE } from "@/lib/demo-data";
+import { buildScanReport, type ReportSection, type ScanInfo } from "@/lib/pdf-report";
+import { combineStageFindings, type PipelineStage } from "@/lib/pipeline";
+import { normalizeResults, type FindingEntity } from "@/lib/scan-model";
+import { requireScanner } from "@/scanners";
+
+interface StageRunResultsProps {
+  title: string;
+  icon: ReactNode;
+  stages: PipelineStage[];
+  isRunning: boolean;
+  progress: ScanProgressState | null;
+  /** Describes the finished run; the exports appear once it is set. */
+  info: ScanInfo | null;
+  /** Once the run finishes, leads with every stage's findings merged per host, in the view and the PDF. */
+  combined?: boolean;
+}
+
+/**
+ * Stage list, live progress, per-stage results and exports for a multi-scan
+ * run, optionally led by the combined findings per host.
+ */
+const StageRunResults = ({ title, icon, stages, isRunning, progress, info, combined = false }: StageRunResultsProps) => {
+  const [selected, setSelected] = useState<FindingEntity | null>(null);
+  const showCombined = combined && info !== null && !isRunning;
+  // Demo results never count as one scanner confirming another.
+  const hostFindings = useMemo(
+    () => (showCombined ? combineStageFindings(stages, () => !info.demo) : []),
+    [showCombined, stages, info]
+  );
+  const completed = stages.filter((stage) => stage.status === 'completed').length;
+  const totalResults = stages.reduce((sum, stage) => sum + stage.results.length, 0);
+  const filePrefix = `${info?.demo ? 'demo-' : ''}securescan-${info?.type}`;
+
+  const exportPayload = () => ({
+    ...(info?.demo ? { demo: true, notice: DEMO_NOTICE } : {}),
+    target: info?.target,
+    timestamp: info?.timestamp.toISOString(),
+    authorization: info?.authorization,
+    ...(showCombined
+      ? {
+          combined: hostFindings.map(({ host, findings }) => ({
+            host,
+            findings: findings.map(({ key, title, severity, scanners, corroborated, locations }) => ({ key, title, severity, scanners, corroborated, locations })),
+          })),
+        }
+      : {}),
+    stages: stages.map(({ scanType, target, status, error, results }) => ({ scanType, target, status, error, results })),
+  });
+
+  const downloadResults = () => {
+    const dataBlob = new Blob([JSON.stringify(exportPayload(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filePrefix}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadPDF = () => {
+    if (!info) return;
+    const combinedSections: ReportSection[] = hostFindings.map(({ host, findings }) => ({
+      title: `Combined findings: ${host}`,
+      entities: findings.map((finding) => ({ ...finding.primary, title: finding.title })),
+      annotate: (cursor, _entity, index) => {
+        const finding = findings[index];
+        const scanners = finding.scanners.map((scannerId) => requireScanner(scannerId).toolName).join(', ');
+        cursor.wrapped(`Reported by: ${scanners}${finding.corroborated ? ' (corroborated)' : ''}`, 10);
+        if (finding.locations.length > 1) cursor.wrapped(`Also found at: ${finding.locations.slice(1).join(', ')}`, 10);
+      },
+    }));
+    const pdf = buildScanReport({
+      info,
+      sections: [
+        ...combinedSections,
+        ...stages.map((stage) => {
+          const scanner = requireScanner(stage.scanType);
+          return {
+            title: `${scanner.toolName}: ${stage.target} (${stage.status})`,
+            ...normalizeResults(scanner, stage.results),
+          };
+        }),
+      ],
+    });
+    pdf.save(`${filePrefix}-${Date.now()}.pdf`);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-white/10 rounded-lg">{icon}</div>
+          <div>
+            <h2 className="text-xl font-semibold text-white">{title}</h2>
+            <p className="text-sm text-white/60">
+              {completed} of {stages.length} scans completed, {totalResults} results
+              {info?.demo && !isRunning && (
+                <span className="ml-2 px-2 py-0.5 rounded-md text-xs font-medium border bg-amber-500/20 text-amber-300 border-amber-500/30">
+                  DEMO DATA
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+        {info && !isRunning && (
+          <div className="flex gap-2">
+            <motion.button
+              onClick={downloadResults}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="p-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white transition-all"
+              title="Download JSON"
+            >
+              <Download className="w-4 h-4" />
+            </motion.button>
+            <motion.button
+              onClick={downloadPDF}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="p-2 bg-gradient-to-r from-red-600 to-pink-600 hover:from-red-500 hover:to-pink-500 rounded-lg text-white transition-all shadow-lg shadow-red-500/25"
+              title="Download PDF Report"
+            >
+              <FileText className="w-4 h-4" />
+            </motion.button>
+          </div>
+        )}
+      </div>
+
+      <PipelineStages stages={stages} />
+      {isRunning && progress && <ScanProgress progress={progress} />}
+
+      {hostFindings.map(({ host, findings }) => (
+        <section key={host} className="mt-8">
+          <h3 className="mb-3 text-sm font-medium text-white/80">
+            Combined findings for <span className="text-violet-300 font-mono">{host}</span>
+            <span className="ml-2 text-white/50">{findings.length} findings</span>
+          </h3>
+          <MergedFindingList findings={findings} onSelect={(finding) => setSelected(finding.primary)} />
+        </section>
+      ))}
+
+      <div className="mt-8 space-y-8">
+        {showCombined && stages.some((stage) => stage.results.length > 0) && (
+          <h3 className="text-sm font-medium text-white/50 uppercase tracking-wide">Results by scan</h3>
+        )}
+        {stages.filter((stage) => stage.results.length > 0).map((stage) => {
+          const { toolName, ResultsView } = requireScanner(stage.scanType);
+          return (
+            <section key={stage.id}>
+              <h3 className="mb-3 text-sm font-medium text-white/80">
+                {toolName} <span className="text-violet-300 font-mono">{stage.target}</span>
+              </h3>
+              <ResultsView results={stage.results} />
+            </section>
+          );
+        })}
+      </div>
+      <FindingDetailSheet finding={selected} onClose={() => setSelected(null)} />
+    </div>
+  );
+};
+
+export default StageRunResults;
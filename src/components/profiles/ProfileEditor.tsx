@@ -0,0 +1,91 @@
+import { useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { scanProfileSchema, type ScanProfile } from "@/lib/profiles";
+import { listScanners, requireScanner } from "@/scanners";
+
+interface ProfileEditorProps {
+  profile: ScanProfile;
+  onSave: (profile: ScanProfile) => void;
+  onCancel: () => void;
+}
+
+const ProfileEditor = ({ profile, onSave, onCancel }: ProfileEditorProps) => {
+  const [name, setName] = useState(profile.name);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [scanType, setScanType] = useState(profile.scanType);
+  const scanTypeRef = useRef(scanType);
+  scanTypeRef.current = scanType;
+  const scanner = requireScanner(scanType);
+  const { OptionsFields } = scanner;
+
+  const form = useForm<Record<string, unknown>>({
+    resolver: (values, context, options) =>
+      zodResolver(requireScanner(scanTypeRef.current).optionsSchema)(values, context, options),
+    defaultValues: { ...scanner.defaultOptions, ...profile.options },
+  });
+
+  const changeScanType = (next: string) => {
+    setScanType(next);
+    form.reset(requireScanner(next).defaultOptions);
+  };
+
+  const handleSave = form.handleSubmit((options) => {
+    const parsedName = scanProfileSchema.shape.name.safeParse(name);
+    if (!parsedName.success) {
+      setNameError(parsedName.error.issues[0].message);
+      return;
+    }
+    onSave({ id: profile.id, name: parsedName.data, scanType, options });
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="profileName">Profile Name</Label>
+          <Input
+            id="profileName"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setNameError(null);
+            }}
+            placeholder="e.g. Full web audit"
+          />
+          {nameError && <p className="text-xs text-red-400">{nameError}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profileScanType">Scanner</Label>
+          <select
+            id="profileScanType"
+            value={scanType}
+            onChange={(e) => changeScanType(e.target.value)}
+            className="w-full h-10 px-3 bg-background border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            {listScanners().map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {OptionsFields && (
+        <Form {...form}>
+          <OptionsFields />
+        </Form>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button onClick={handleSave} className="bg-violet-600 hover:bg-violet-500 text-white">Save Profile</Button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileEditor;
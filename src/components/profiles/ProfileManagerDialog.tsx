@@ -0,0 +1,151 @@
+import { useRef, useState } from "react";
+import { Copy, Download, Pencil, Plus, Save, Trash2, Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import ProfileEditor from "@/components/profiles/ProfileEditor";
+import { useToast } from "@/hooks/use-toast";
+import type { ScanProfilesApi } from "@/hooks/use-scan-profiles";
+import { createProfileId, exportProfiles, parseProfilesFile, type ScanProfile } from "@/lib/profiles";
+import { getScanner } from "@/scanners";
+
+interface ProfileManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profilesApi: ScanProfilesApi;
+  /** Scanner and options currently in the scan form, for "Save current settings". */
+  current: { scanType: string; options: Record<string, unknown> };
+  onUseProfile: (profile: ScanProfile) => void;
+}
+
+const ProfileManagerDialog = ({ open, onOpenChange, profilesApi, current, onUseProfile }: ProfileManagerDialogProps) => {
+  const { profiles, customProfiles, saveProfile, deleteProfile, duplicateProfile, importProfiles } = profilesApi;
+  const [editing, setEditing] = useState<ScanProfile | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const startNew = (scanType: string, options: Record<string, unknown>) =>
+    setEditing({ id: createProfileId(), name: '', scanType, options });
+
+  const handleSave = (profile: ScanProfile) => {
+    saveProfile(profile);
+    setEditing(null);
+    toast({
+      title: "Profile saved",
+      description: `"${profile.name}" is available in the scan form`,
+    });
+  };
+
+  const handleExport = () => {
+    const dataBlob = new Blob([exportProfiles(customProfiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `securescan-profiles-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    const { profiles: imported, errors } = parseProfilesFile(await file.text());
+    importProfiles(imported);
+    toast({
+      title: imported.length > 0 ? `Imported ${imported.length} profiles` : "Nothing imported",
+      description: errors.length > 0 ? errors.join('; ') : undefined,
+      variant: imported.length === 0 ? "destructive" : undefined
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditing(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="dark bg-slate-900 text-white border-white/10 max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editing ? (editing.name ? `Edit "${editing.name}"` : 'New Profile') : 'Scan Profiles'}</DialogTitle>
+          <DialogDescription className="text-white/60">
+            Profiles bundle a scanner with its options. They are stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <ProfileEditor key={editing.id} profile={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => startNew(current.scanType, current.options)} className="bg-violet-600 hover:bg-violet-500 text-white">
+                <Save className="w-4 h-4 mr-1" />
+                Save Current Settings
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => startNew(profiles[0].scanType, profiles[0].options)}>
+                <Plus className="w-4 h-4 mr-1" />
+                New
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-1" />
+                Import
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleExport} disabled={customProfiles.length === 0}>
+                <Download className="w-4 h-4 mr-1" />
+                Export
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            <ul className="divide-y divide-white/5 rounded-xl border border-white/10">
+              {profiles.map((profile) => (
+                <li key={profile.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {profile.name}
+                      {profile.builtIn && <span className="ml-2 text-xs text-white/40">built-in</span>}
+                    </p>
+                    <p className="text-xs text-white/50">{getScanner(profile.scanType)?.label ?? profile.scanType}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      onUseProfile(profile);
+                      onOpenChange(false);
+                    }}
+                  >
+                    Use
+                  </Button>
+                  {!profile.builtIn && (
+                    <Button size="icon" variant="ghost" title="Edit" onClick={() => setEditing(profile)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button size="icon" variant="ghost" title="Duplicate" onClick={() => setEditing(duplicateProfile(profile))}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  {!profile.builtIn && (
+                    <Button size="icon" variant="ghost" title="Delete" onClick={() => deleteProfile(profile.id)} className="hover:text-red-400">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileManagerDialog;
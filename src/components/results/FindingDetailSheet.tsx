@@ -0,0 +1,176 @@
+import type { ReactNode } from "react";
+import { Copy, ExternalLink } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { curlForFinding } from "@/lib/curl";
+import type { FindingEntity } from "@/lib/scan-model";
+import { getScanner } from "@/scanners/registry";
+import { getSeverityColor } from "@/scanners/styles";
+
+interface FindingDetailSheetProps {
+  /** The finding to show; the sheet is closed while null. */
+  finding: FindingEntity | null;
+  onClose: () => void;
+}
+
+// Scanner output is untrusted, so only plain web links become anchors.
+const isWebLink = (value: string) => /^https?:\/\//i.test(value);
+
+const cveLink = (id: string) => `https://nvd.nist.gov/vuln/detail/${encodeURIComponent(id.toUpperCase())}`;
+
+const cweLink = (id: string) => {
+  const number = /(\d+)$/.exec(id)?.[1];
+  return number ? `https://cwe.mitre.org/data/definitions/${number}.html` : undefined;
+};
+
+const Section = ({ title, action, children }: { title: string; action?: ReactNode; children: ReactNode }) => (
+  <section className="space-y-2">
+    <div className="flex items-center justify-between">
+      <h3 className="text-xs font-medium uppercase tracking-wide text-white/50">{title}</h3>
+      {action}
+    </div>
+    {children}
+  </section>
+);
+
+const ExternalAnchor = ({ href, children }: { href: string; children: ReactNode }) => (
+  <a href={href} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-violet-300 hover:text-violet-200 break-all">
+    {children}
+    <ExternalLink className="w-3 h-3 flex-shrink-0" />
+  </a>
+);
+
+/** Everything a scanner reported about one finding, with copyable reproductions. */
+const FindingDetailSheet = ({ finding, onClose }: FindingDetailSheetProps) => {
+  const { toast } = useToast();
+
+  const copyToClipboard = (text: string, what: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to clipboard",
+      description: `${what} copied`,
+    });
+  };
+
+  const copyButton = (text: string, what: string) => (
+    <button
+      onClick={() => copyToClipboard(text, what)}
+      className="flex items-center gap-1 text-xs text-violet-300 hover:text-violet-200 transition-colors"
+    >
+      <Copy className="w-3 h-3" />
+      Copy
+    </button>
+  );
+
+  const curl = finding ? curlForFinding(finding) : undefined;
+  const classification = finding?.classification;
+  const facts = finding
+    ? ([
+        ['Scanner', getScanner(finding.scanner)?.toolName ?? finding.scanner],
+        ['Rule', finding.ruleId],
+        ['Confidence', finding.confidence],
+        ['Matcher', finding.evidence.matcher],
+        ['Method', finding.method],
+        ['CVSS', classification.cvssScore !== undefined ? `${classification.cvssScore.toFixed(1)}${classification.cvssMetrics ? ` (${classification.cvssMetrics})` : ''}` : classification.cvssMetrics],
+      ].filter(([, value]) => value) as [string, string][])
+    : [];
+
+  return (
+    <Sheet open={finding !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="dark bg-slate-900 text-white border-white/10 w-full sm:max-w-2xl overflow-y-auto">
+        {finding && (
+          <>
+            <SheetHeader className="pr-6">
+              <span className={`self-start px-2 py-1 rounded-md text-xs font-medium border ${getSeverityColor(finding.severity)}`}>
+                {finding.severity.toUpperCase()}
+              </span>
+              <SheetTitle className="text-white">{finding.title}</SheetTitle>
+              {finding.description && finding.description !== finding.title && (
+                <SheetDescription className="text-white/70">{finding.description}</SheetDescription>
+              )}
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6 text-sm">
+              {finding.location && (
+                <Section title="Location">
+                  <p className="font-mono text-violet-300 break-all">{finding.location}</p>
+                </Section>
+              )}
+
+              {facts.length > 0 && (
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2">
+                  {facts.map(([label, value]) => (
+                    <div key={label} className="contents">
+                      <dt className="text-white/50">{label}</dt>
+                      <dd className="font-mono text-white/90 break-all">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+
+              {(classification.cve.length > 0 || classification.cwe.length > 0) && (
+                <Section title="Classification">
+                  <div className="flex flex-wrap gap-3">
+                    {classification.cve.map((id) => <ExternalAnchor key={id} href={cveLink(id)}>{id}</ExternalAnchor>)}
+                    {classification.cwe.map((id) => {
+                      const href = cweLink(id);
+                      return href ? <ExternalAnchor key={id} href={href}>{id}</ExternalAnchor> : <span key={id}>{id}</span>;
+                    })}
+                  </div>
+                </Section>
+              )}
+
+              {finding.evidence.extracted.length > 0 && (
+                <Section title="Extracted Values">
+                  <div className="flex flex-wrap gap-2">
+                    {finding.evidence.extracted.map((value, index) => (
+                      <code key={index} className="px-2 py-1 rounded-md bg-white/5 border border-white/10 font-mono text-xs break-all">{value}</code>
+                    ))}
+                  </div>
+                </Section>
+              )}
+
+              {finding.remediation && (
+                <Section title="Remediation">
+                  <p className="text-white/80 whitespace-pre-wrap">{finding.remediation}</p>
+                </Section>
+              )}
+
+              {finding.references.length > 0 && (
+                <Section title="References">
+                  <ul className="space-y-1">
+                    {finding.references.map((reference) => (
+                      <li key={reference}>
+                        {isWebLink(reference) ? <ExternalAnchor href={reference}>{reference}</ExternalAnchor> : <span className="text-white/80 break-all">{reference}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </Section>
+              )}
+
+              {curl && (
+                <Section title="Reproduce with curl" action={copyButton(curl, 'curl command')}>
+                  <pre className="p-3 rounded-xl bg-black/30 border border-white/10 font-mono text-xs text-white/80 whitespace-pre-wrap break-all">{curl}</pre>
+                </Section>
+              )}
+
+              {finding.evidence.request && (
+                <Section title="Request" action={copyButton(finding.evidence.request, 'Request')}>
+                  <pre className="max-h-72 overflow-auto p-3 rounded-xl bg-black/30 border border-white/10 font-mono text-xs text-white/80 whitespace-pre-wrap break-all">{finding.evidence.request}</pre>
+                </Section>
+              )}
+
+              {finding.evidence.response && (
+                <Section title="Response" action={copyButton(finding.evidence.response, 'Response')}>
+                  <pre className="max-h-72 overflow-auto p-3 rounded-xl bg-black/30 border border-white/10 font-mono text-xs text-white/80 whitespace-pre-wrap break-all">{finding.evidence.response}</pre>
+                </Section>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default FindingDetailSheet;
@@ -0,0 +1,96 @@
+import { useEffect } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle } from "lucide-react";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import type { MergedFinding } from "@/lib/unified-findings";
+import { getScanner } from "@/scanners/registry";
+import { getSeverityColor } from "@/scanners/styles";
+
+interface MergedFindingRowProps {
+  finding: MergedFinding;
+  /** Position in the list; only the first rows slide in. */
+  index: number;
+  onSelect: (finding: MergedFinding) => void;
+}
+
+interface MergedFindingListProps {
+  findings: MergedFinding[];
+  onSelect: (finding: MergedFinding) => void;
+  /** The list scrolls back to the top whenever this changes, e.g. with the filters. */
+  resetKey?: string;
+}
+
+// Long lists only render the rows near the viewport; every row is this tall, gap included.
+const VIRTUALIZE_ABOVE = 100;
+const ROW_HEIGHT = 80;
+
+// Only the first rows slide in; rows mounted by scrolling appear as they are.
+const ANIMATED_ROWS = 20;
+
+const toolName = (scannerId: string) => getScanner(scannerId)?.toolName ?? scannerId;
+
+/** One issue merged across scanners: severity, title, where it was found and who reported it. */
+const MergedFindingRow = ({ finding, index, onSelect }: MergedFindingRowProps) => (
+  <motion.button
+    type="button"
+    onClick={() => onSelect(finding)}
+    initial={index < ANIMATED_ROWS ? { opacity: 0, x: -20 } : false}
+    animate={{ opacity: 1, x: 0 }}
+    transition={{ delay: index < ANIMATED_ROWS ? index * 0.03 : 0 }}
+    className="w-full h-full text-left px-4 py-3 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-colors flex items-center gap-3 overflow-hidden"
+  >
+    <span className={`px-2 py-1 rounded-md text-xs font-medium border ${getSeverityColor(finding.severity)}`}>
+      {finding.severity.toUpperCase()}
+    </span>
+    <div className="flex-1 min-w-0">
+      <p className="font-medium text-white truncate" title={finding.title}>{finding.title}</p>
+      {finding.locations.length > 0 && (
+        <p className="text-xs text-violet-300 font-mono truncate">
+          {finding.locations[0]}
+          {finding.locations.length > 1 && <span className="text-white/50"> and {finding.locations.length - 1} more</span>}
+        </p>
+      )}
+    </div>
+    <div className="flex gap-1 shrink-0">
+      {finding.scanners.map((scannerId) => (
+        <span
+          key={scannerId}
+          className={`px-2 py-0.5 rounded-md text-xs border flex items-center gap-1 ${finding.corroborated ? 'bg-green-500/10 text-green-300 border-green-500/30' : 'bg-white/5 text-white/60 border-white/10'}`}
+        >
+          {finding.corroborated && <CheckCircle className="w-3 h-3" />}
+          {toolName(scannerId)}
+        </span>
+      ))}
+    </div>
+  </motion.button>
+);
+
+/** Merged findings, most severe first, rendering only the visible rows of long lists. */
+const MergedFindingList = ({ findings, onSelect, resetKey }: MergedFindingListProps) => {
+  const { containerRef, onScroll, scrollToTop, start, end, paddingTop, paddingBottom } = useVirtualRows({
+    count: findings.length,
+    rowHeight: ROW_HEIGHT,
+    enabled: findings.length > VIRTUALIZE_ABOVE,
+  });
+  useEffect(() => {
+    scrollToTop();
+  }, [resetKey, scrollToTop]);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={onScroll}
+      className={findings.length > VIRTUALIZE_ABOVE ? 'max-h-[640px] overflow-auto' : undefined}
+    >
+      {paddingTop > 0 && <div aria-hidden style={{ height: paddingTop }} />}
+      {findings.slice(start, end).map((finding, offset) => (
+        <div key={finding.key} className="pb-2" style={{ height: ROW_HEIGHT }}>
+          <MergedFindingRow finding={finding} index={start + offset} onSelect={onSelect} />
+        </div>
+      ))}
+      {paddingBottom > 0 && <div aria-hidden style={{ height: paddingBottom }} />}
+    </div>
+  );
+};
+
+export default MergedFindingList;
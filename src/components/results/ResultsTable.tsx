@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useState, type KeyboardEvent, type MouseEvent } from "react";
+import { motion } from "framer-motion";
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Search } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import {
+  columnValues,
+  filterResults,
+  pageWindow,
+  sortResults,
+  type ResultColumn,
+  type ResultFilters,
+  type ResultSort,
+} from "@/lib/results-table";
+import type { ScanResult } from "@/lib/scan-client";
+
+// 0 shows every row on one page.
+const PAGE_SIZES = [25, 50, 100, 250, 1000, 0];
+
+// Pages longer than this only render the rows near the viewport, at a fixed row height.
+const VIRTUALIZE_ABOVE = 100;
+const ROW_HEIGHT = 44;
+
+// Only the first rows slide in, once; rows mounted later (paging, scrolling) appear as they are.
+const ANIMATED_ROWS = 20;
+const ROW_DELAY = 0.05;
+
+const controlClassName = "px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+const MotionTableRow = motion(TableRow);
+
+interface ResultsTableProps {
+  results: ScanResult[];
+  columns: ResultColumn[];
+  /** Makes rows clickable, e.g. to open a finding's details. */
+  onRowClick?: (result: ScanResult) => void;
+}
+
+/** Results as a table with search, per-column filters, sorting, column toggles and paging. */
+const ResultsTable = ({ results, columns, onRowClick }: ResultsTableProps) => {
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<ResultFilters>({});
+  const [sort, setSort] = useState<ResultSort | null>(null);
+  const [hidden, setHidden] = useState(() => new Set(columns.filter((column) => column.hiddenByDefault).map((column) => column.id)));
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+
+  const visibleColumns = columns.filter((column) => !hidden.has(column.id));
+  const filterColumns = useMemo(() => columns.filter((column) => column.filterable), [columns]);
+  const filterOptions = useMemo(
+    () => Object.fromEntries(filterColumns.map((column) => [column.id, columnValues(results, column)])),
+    [results, filterColumns]
+  );
+  const rows = useMemo(
+    () => sortResults(filterResults(results, columns, search, filters), columns, sort),
+    [results, columns, search, filters, sort]
+  );
+
+  const rowsPerPage = pageSize === 0 ? Math.max(rows.length, 1) : pageSize;
+  const pageCount = Math.max(1, Math.ceil(rows.length / rowsPerPage));
+  // New results or a narrower filter can leave the current page past the end.
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+  const pageRows = rows.slice(page * rowsPerPage, (page + 1) * rowsPerPage);
+
+  const virtual = pageRows.length > VIRTUALIZE_ABOVE;
+  const { containerRef, onScroll, scrollToTop, start, end, paddingTop, paddingBottom } = useVirtualRows({
+    count: pageRows.length,
+    rowHeight: ROW_HEIGHT,
+    enabled: virtual,
+  });
+  useEffect(() => {
+    scrollToTop();
+  }, [search, filters, sort, page, pageSize, scrollToTop]);
+
+  const [introDone, setIntroDone] = useState(false);
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setIntroDone(true), (ANIMATED_ROWS * ROW_DELAY + 0.5) * 1000);
+    return () => clearTimeout(timeoutId);
+  }, []);
+
+  const updateFilter = (columnId: string, value: string) => {
+    setFilters((previous) => ({ ...previous, [columnId]: value }));
+    setPage(0);
+  };
+
+  // Cycles ascending, descending, then back to the scanner's order.
+  const toggleSort = (columnId: string) => {
+    setSort((previous) => {
+      if (previous?.columnId !== columnId) return { columnId, direction: 'asc' };
+      return previous.direction === 'asc' ? { columnId, direction: 'desc' } : null;
+    });
+  };
+
+  const toggleColumn = (columnId: string, visible: boolean) => {
+    setHidden((previous) => {
+      const next = new Set(previous);
+      if (visible) next.delete(columnId);
+      else next.add(columnId);
+      return next;
+    });
+  };
+
+  const goTo = (target: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(target, 0), pageCount - 1));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/40" />
+          <input
+            aria-label="Search results"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(0);
+            }}
+            placeholder="Search results"
+            className={`${controlClassName} w-full pl-9`}
+          />
+        </div>
+        {filterColumns.map((column) => (
+          <select
+            key={column.id}
+            aria-label={`Filter by ${column.label}`}
+            value={filters[column.id] ?? ''}
+            onChange={(e) => updateFilter(column.id, e.target.value)}
+            className={controlClassName}
+          >
+            <option value="">All {column.label.toLowerCase()}</option>
+            {filterOptions[column.id]?.map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        ))}
+        <DropdownMenu>
+          <DropdownMenuTrigger className={`${controlClassName} flex items-center gap-2 text-white/80 hover:text-white`}>
+            <Columns3 className="w-4 h-4" />
+            Columns
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="dark bg-slate-900 text-white border-white/10">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {columns.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={!hidden.has(column.id)}
+                // Keep at least one column on screen.
+                disabled={!hidden.has(column.id) && visibleColumns.length === 1}
+                onCheckedChange={(checked) => toggleColumn(column.id, checked)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div
+        ref={containerRef}
+        onScroll={onScroll}
+        className={virtual ? 'max-h-[640px] overflow-auto rounded-xl border border-white/5' : undefined}
+      >
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              {visibleColumns.map((column) => {
+                const direction = sort?.columnId === column.id ? sort.direction : null;
+                const SortIcon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+                return (
+                  <TableHead
+                    key={column.id}
+                    aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+                    className="text-white/80"
+                  >
+                    <button onClick={() => toggleSort(column.id)} className="flex items-center gap-1 hover:text-white transition-colors">
+                      {column.label}
+                      <SortIcon className={`w-3 h-3 ${direction ? 'text-violet-300' : 'text-white/30'}`} />
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+            {pageRows.slice(start, end).map((result, offset) => {
+              const index = start + offset;
+              const animated = !introDone && page === 0 && index < ANIMATED_ROWS;
+              return (
+                <MotionTableRow
+                  key={page * rowsPerPage + index}
+                  initial={animated ? { opacity: 0, x: -20 } : false}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: animated ? index * ROW_DELAY : 0 }}
+                  style={virtual ? { height: ROW_HEIGHT } : undefined}
+                  className={`border-white/5 hover:bg-white/5 ${onRowClick ? 'cursor-pointer focus:outline-none focus-visible:bg-white/10' : ''}`}
+                  {...(onRowClick && {
+                    tabIndex: 0,
+                    onClick: () => onRowClick(result),
+                    onKeyDown: (event: KeyboardEvent) => {
+                      if (event.key !== 'Enter' && event.key !== ' ') return;
+                      event.preventDefault();
+                      onRowClick(result);
+                    },
+                  })}
+                >
+                  {visibleColumns.map((column) => (
+                    <TableCell
+                      key={column.id}
+                      title={virtual ? column.value(result) : undefined}
+                      className={`${column.className ?? 'text-white/70'} ${virtual ? 'py-0 whitespace-nowrap overflow-hidden text-ellipsis max-w-md' : ''}`}
+                    >
+                      {column.render ? column.render(result) : column.value(result)}
+                    </TableCell>
+                  ))}
+                </MotionTableRow>
+              );
+            })}
+            {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+            {pageRows.length === 0 && (
+              <TableRow className="border-white/5 hover:bg-transparent">
+                <TableCell colSpan={visibleColumns.length} className="py-8 text-center text-white/60">
+                  No results match the search or filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-white/60">
+        <span>
+          {rows.length === results.length ? `${results.length} results` : `${rows.length} of ${results.length} results`}
+        </span>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={goTo(page - 1)} className="hover:bg-white/10 hover:text-white" />
+              </PaginationItem>
+              {pageWindow(page, pageCount).map((index, position) => (
+                <PaginationItem key={index ?? `gap-${position}`}>
+                  {index === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={index === page}
+                      onClick={goTo(index)}
+                      className={index === page ? 'bg-white/10 border-white/10 text-white hover:bg-white/20 hover:text-white' : 'hover:bg-white/10 hover:text-white'}
+                    >
+                      {index + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={goTo(page + 1)} className="hover:bg-white/10 hover:text-white" />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+        <label className="flex items-center gap-2">
+          Rows per page
+          <select
+            value={pageSize}
+            onChange={(e) => {
+              setPageSize(Number(e.target.value));
+              setPage(0);
+            }}
+            className={controlClassName}
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>{size === 0 ? 'All' : size}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ResultsTable;
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useState } from "react";
+import { FileUp } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { detectImportFormat, importScanFile, listImportFormats, type ImportFormat } from "@/lib/scan-import";
+import { listScanners, type ImportedScan } from "@/scanners";
+
+interface ImportScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called with one scan per host found in the file. */
+  onImported: (format: ImportFormat, fileName: string, scans: ImportedScan[]) => void;
+}
+
+const inputClassName = "w-full px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+/** Reads a report produced by a scanner run outside SecureScan, entirely in the browser. */
+const ImportScanDialog = ({ open, onOpenChange, onImported }: ImportScanDialogProps) => {
+  const formats = useMemo(() => listImportFormats(listScanners()), []);
+  const [file, setFile] = useState<File | null>(null);
+  const [formatIndex, setFormatIndex] = useState(-1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setFormatIndex(-1);
+    setProgress(null);
+    setError(null);
+  }, [open]);
+
+  const chooseFile = async (chosen: File | undefined) => {
+    setFile(chosen ?? null);
+    setError(null);
+    if (!chosen) return;
+    try {
+      const detected = await detectImportFormat(chosen, formats);
+      setFormatIndex(detected ? formats.indexOf(detected) : -1);
+      if (!detected) setError('The format could not be recognised; pick it below.');
+    } catch (readError) {
+      setFormatIndex(-1);
+      setError(`Could not read ${chosen.name}: ${readError instanceof Error ? readError.message : String(readError)}`);
+    }
+  };
+
+  const handleImport = async () => {
+    const format = formats[formatIndex];
+    if (!file || !format) return;
+    setError(null);
+    setProgress(0);
+    try {
+      const scans = await importScanFile(file, format, setProgress);
+      onImported(format, file.name, scans);
+      onOpenChange(false);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const importing = progress !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !importing && onOpenChange(next)}>
+      <DialogContent className="dark bg-slate-900 text-white border-white/10 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-violet-400" />
+            Import scan results
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Load a report from a scan run outside SecureScan. The file is read in this browser and is never uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="importFile" className="block text-sm font-medium text-white/80 mb-2">
+              Report file
+            </label>
+            <input
+              id="importFile"
+              type="file"
+              accept={[...new Set(formats.flatMap(({ importer }) => importer.extensions))].join(',')}
+              onChange={(e) => chooseFile(e.target.files?.[0])}
+              disabled={importing}
+              className={`${inputClassName} file:mr-3 file:px-3 file:py-1 file:rounded-lg file:border-0 file:bg-white/10 file:text-white file:text-sm`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="importFormat" className="block text-sm font-medium text-white/80 mb-2">
+              Format
+            </label>
+            <select
+              id="importFormat"
+              value={formatIndex}
+              onChange={(e) => setFormatIndex(Number(e.target.value))}
+              disabled={!file || importing}
+              className={inputClassName}
+            >
+              <option value={-1} disabled>Choose a format</option>
+              {formats.map(({ scanner, importer }, index) => (
+                <option key={`${scanner.id}-${importer.label}`} value={index}>
+                  {scanner.toolName}: {importer.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {importing && (
+            <div className="space-y-1">
+              <Progress value={progress * 100} className="h-2 bg-white/10 [&>div]:bg-violet-500" />
+              <p className="text-xs text-white/50">Reading {file?.name}…</p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!file || formatIndex < 0 || importing} className="bg-violet-600 hover:bg-violet-500 text-white">
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportScanDialog;
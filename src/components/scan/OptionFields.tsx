@@ -0,0 +1,152 @@
+import { useFormContext } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+
+const inputClassName = "bg-white/5 border-white/10 text-white placeholder:text-white/40 focus-visible:ring-violet-500/50 focus-visible:ring-offset-0";
+const labelClassName = "text-white/80";
+const descriptionClassName = "text-xs text-white/40";
+const messageClassName = "text-xs text-red-400";
+
+interface OptionFieldProps {
+  name: string;
+  label: string;
+  description?: string;
+}
+
+export const TextOptionField = ({ name, label, description, placeholder }: OptionFieldProps & { placeholder?: string }) => {
+  const { control } = useFormContext();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className={labelClassName}>{label}</FormLabel>
+          <FormControl>
+            <Input {...field} value={field.value ?? ''} placeholder={placeholder} className={inputClassName} />
+          </FormControl>
+          {description && <FormDescription className={descriptionClassName}>{description}</FormDescription>}
+          <FormMessage className={messageClassName} />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export const NumberOptionField = ({ name, label, description, min, max }: OptionFieldProps & { min?: number; max?: number }) => {
+  const { control } = useFormContext();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className={labelClassName}>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={min}
+              max={max}
+              name={field.name}
+              ref={field.ref}
+              onBlur={field.onBlur}
+              value={Number.isNaN(field.value) || field.value === undefined ? '' : field.value}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+              className={inputClassName}
+            />
+          </FormControl>
+          {description && <FormDescription className={descriptionClassName}>{description}</FormDescription>}
+          <FormMessage className={messageClassName} />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export const SelectOptionField = ({ name, label, description, options }: OptionFieldProps & { options: { value: string; label: string }[] }) => {
+  const { control } = useFormContext();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className={labelClassName}>{label}</FormLabel>
+          <FormControl>
+            <select
+              {...field}
+              className="w-full h-10 px-3 bg-white/5 border border-white/10 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-violet-500/50"
+            >
+              {options.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </FormControl>
+          {description && <FormDescription className={descriptionClassName}>{description}</FormDescription>}
+          <FormMessage className={messageClassName} />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export const SwitchOptionField = ({ name, label, description }: OptionFieldProps) => {
+  const { control } = useFormContext();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4 space-y-0 rounded-lg border border-white/10 bg-white/[0.02] p-3">
+          <div>
+            <FormLabel className={labelClassName}>{label}</FormLabel>
+            {description && <FormDescription className={descriptionClassName}>{description}</FormDescription>}
+          </div>
+          <FormControl>
+            <Switch
+              checked={Boolean(field.value)}
+              onCheckedChange={field.onChange}
+              className="data-[state=checked]:bg-violet-500 data-[state=unchecked]:bg-white/10"
+            />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export const CheckboxGroupOptionField = ({ name, label, description, options }: OptionFieldProps & { options: { value: string; label: string }[] }) => {
+  const { control } = useFormContext();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => {
+        const selected: string[] = field.value ?? [];
+        return (
+          <FormItem>
+            <FormLabel className={labelClassName}>{label}</FormLabel>
+            <div className="flex flex-wrap gap-4">
+              {options.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(option.value)}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked ? [...selected, option.value] : selected.filter((value) => value !== option.value))
+                    }
+                    className="border-white/30 data-[state=checked]:bg-violet-500 data-[state=checked]:border-violet-500"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            {description && <FormDescription className={descriptionClassName}>{description}</FormDescription>}
+            <FormMessage className={messageClassName} />
+          </FormItem>
+        );
+      }}
+    />
+  );
+};
@@ -0,0 +1,33 @@
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { ScannerDefinition } from "@/scanners";
+
+interface ScanOptionsPanelProps {
+  scanner: ScannerDefinition;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  disabled?: boolean;
+}
+
+/** Collapsible advanced options for the selected scanner; must render inside the scan `<Form>`. */
+const ScanOptionsPanel = ({ scanner, open, onOpenChange, disabled }: ScanOptionsPanelProps) => {
+  const { OptionsFields } = scanner;
+  if (!OptionsFields) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange} className="mt-6">
+      <CollapsibleTrigger className="flex items-center gap-2 text-sm text-white/60 hover:text-white transition-colors">
+        <SlidersHorizontal className="w-4 h-4" />
+        Advanced {scanner.toolName} options
+        <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-4 p-4 rounded-xl border border-white/10 bg-white/[0.02]">
+        <fieldset disabled={disabled}>
+          <OptionsFields />
+        </fieldset>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ScanOptionsPanel;
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Clock, Zap } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { ScanProgressState } from "@/hooks/use-scan-job";
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: 'Waiting for a scanner worker...',
+  running: 'Scanning target for security vulnerabilities...',
+};
+
+const ScanProgress = ({ progress }: { progress: ScanProgressState | null }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const elapsed = progress ? now - progress.startedAt.getTime() : 0;
+  const percent = progress?.percent;
+
+  return (
+    <div className="py-12 max-w-xl mx-auto text-center">
+      <motion.div
+        animate={{ rotate: 360 }}
+        transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+        className="inline-block mb-4"
+      >
+        <Zap className="w-8 h-8 text-violet-400" />
+      </motion.div>
+      <p className="text-white/60 mb-6">
+        {STATUS_LABELS[progress?.status ?? 'running'] ?? STATUS_LABELS.running}
+      </p>
+
+      <Progress
+        value={percent ?? 0}
+        className={`h-2 bg-white/10 [&>div]:bg-gradient-to-r [&>div]:from-violet-600 [&>div]:to-purple-500 ${percent === undefined ? 'animate-pulse' : ''}`}
+      />
+
+      <div className="mt-3 flex items-center justify-between text-sm text-white/60">
+        <span className="truncate text-left">{progress?.phase ?? 'Starting'}</span>
+        <span className="flex items-center gap-3 flex-shrink-0">
+          {percent !== undefined && <span className="font-mono text-white/80">{Math.round(percent)}%</span>}
+          <span className="flex items-center gap-1 font-mono">
+            <Clock className="w-3.5 h-3.5" />
+            {formatElapsed(elapsed)}
+          </span>
+        </span>
+      </div>
+      {progress && progress.resultCount > 0 && (
+        <p className="mt-2 text-xs text-white/40">{progress.resultCount} results received so far</p>
+      )}
+    </div>
+  );
+};
+
+export default ScanProgress;
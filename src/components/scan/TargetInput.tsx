@@ -0,0 +1,134 @@
+import { useRef, useState } from "react";
+import { ShieldAlert, Upload } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { targetsFromFile, type TargetExpansion } from "@/lib/targets";
+
+interface TargetInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  expansion: TargetExpansion;
+  /** Scope violations for the current targets; scanning stays blocked while any remain. */
+  scopeErrors?: string[];
+  /** Reserved or deny-listed targets; scanning them needs `override`. */
+  safetyFlags?: string[];
+  override?: boolean;
+  onOverrideChange?: (override: boolean) => void;
+  /** Scanner-fit hints for the current targets; they do not block scanning. */
+  warnings?: string[];
+  /** False when the current mode scans exactly one target. */
+  allowMultiple?: boolean;
+  disabled?: boolean;
+}
+
+const MAX_LISTED_ERRORS = 3;
+
+const TargetInput = ({ value, onChange, expansion, scopeErrors = [], safetyFlags = [], override = false, onOverrideChange, warnings = [], allowMultiple = true, disabled }: TargetInputProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const { targets, duplicates } = expansion;
+  const errors = [...(uploadError ? [uploadError] : []), ...expansion.errors, ...scopeErrors];
+
+  const handleUpload = async (file: File) => {
+    setUploadError(null);
+    let text: string;
+    try {
+      text = targetsFromFile(file.name, await file.text());
+    } catch (error) {
+      setUploadError(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (!text) {
+      toast({ title: "No targets found", description: `${file.name} is empty`, variant: "destructive" });
+      return;
+    }
+    onChange(value.trim() ? `${value.trim()}\n${text}` : text);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label htmlFor="targetInput" className="block text-sm font-medium text-white/80">
+          Target Domain or IP Address
+        </label>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-xs text-violet-300 hover:text-violet-200 transition-colors"
+          disabled={disabled}
+        >
+          <Upload className="w-3 h-3" />
+          Upload list
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.csv,text/plain,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <textarea
+        id="targetInput"
+        value={value}
+        onChange={(e) => {
+          setUploadError(null);
+          onChange(e.target.value);
+        }}
+        placeholder={'e.g. example.com or 192.168.0.1\nOne per line; CIDR (10.0.0.0/28) and ranges (10.0.0.1-20) work too'}
+        rows={value.includes('\n') ? 4 : 2}
+        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all resize-y font-mono text-sm"
+        disabled={disabled}
+      />
+      {!allowMultiple && targets.length > 1 && (
+        <p className="mt-2 text-xs text-red-400">This mode runs against one target at a time; enter a single target.</p>
+      )}
+      {allowMultiple && (targets.length > 1 || duplicates > 0) && (
+        <p className="mt-2 text-xs text-white/60">
+          {targets.length} targets queued as separate scans
+          {duplicates > 0 && `, ${duplicates} duplicates removed`}
+        </p>
+      )}
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-red-400">
+          {errors.slice(0, MAX_LISTED_ERRORS).map((error) => <li key={error}>{error}</li>)}
+          {errors.length > MAX_LISTED_ERRORS && <li>and {errors.length - MAX_LISTED_ERRORS} more</li>}
+        </ul>
+      )}
+      {safetyFlags.length > 0 && (
+        <div className="mt-3 p-3 rounded-xl border border-orange-500/30 bg-orange-500/10 text-xs text-orange-200">
+          <p className="flex items-center gap-2 font-medium">
+            <ShieldAlert className="w-4 h-4" />
+            Internal or deny-listed targets
+          </p>
+          <ul className="mt-2 space-y-1">
+            {safetyFlags.slice(0, MAX_LISTED_ERRORS).map((flag) => <li key={flag}>{flag}</li>)}
+            {safetyFlags.length > MAX_LISTED_ERRORS && <li>and {safetyFlags.length - MAX_LISTED_ERRORS} more</li>}
+          </ul>
+          <label className="mt-3 flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={override}
+              onCheckedChange={(checked) => onOverrideChange?.(checked === true)}
+              disabled={disabled}
+              className="border-orange-300/50 data-[state=checked]:bg-orange-500 data-[state=checked]:border-orange-500"
+            />
+            Scan these targets anyway
+          </label>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-amber-300">
+          {warnings.slice(0, MAX_LISTED_ERRORS).map((warning) => <li key={warning}>{warning}</li>)}
+          {warnings.length > MAX_LISTED_ERRORS && <li>and {warnings.length - MAX_LISTED_ERRORS} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TargetInput;
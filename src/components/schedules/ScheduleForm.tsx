@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { CalendarClock } from "lucide-react";
+import TargetInput from "@/components/scan/TargetInput";
+import AuthorizationDialog from "@/components/scope/AuthorizationDialog";
+import { Switch } from "@/components/ui/switch";
+import { useScope } from "@/contexts/scope-context";
+import { useScanProfiles } from "@/hooks/use-scan-profiles";
+import { describeScanError, type ScanScheduleRequest } from "@/lib/scan-client";
+import { cronExpressionError, MIN_INTERVAL_MINUTES } from "@/lib/schedules";
+import { expandTargets, normalizeTarget } from "@/lib/targets";
+import { useToast } from "@/hooks/use-toast";
+import { requireScanner } from "@/scanners";
+
+const inputClassName = "w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+interface ScheduleFormProps {
+  onCreate: (request: ScanScheduleRequest) => Promise<unknown>;
+  disabled?: boolean;
+}
+
+const ScheduleForm = ({ onCreate, disabled }: ScheduleFormProps) => {
+  const { profiles } = useScanProfiles();
+  const { checkTargets, checkSafety, getAuthorization } = useScope();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [profileId, setProfileId] = useState(profiles[0]?.id ?? '');
+  const [recurrenceKind, setRecurrenceKind] = useState<'interval' | 'cron'>('interval');
+  const [everyMinutes, setEveryMinutes] = useState('1440');
+  const [cronExpression, setCronExpression] = useState('0 3 * * *');
+  const [useWindow, setUseWindow] = useState(false);
+  const [windowStart, setWindowStart] = useState('22:00');
+  const [windowEnd, setWindowEnd] = useState('06:00');
+  const [safetyOverride, setSafetyOverride] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [pendingCreate, setPendingCreate] = useState<(() => void) | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const expansion = useMemo(() => expandTargets(target), [target]);
+  // Scheduled runs are always live, so the scope and safeguards always apply.
+  const scopeErrors = useMemo(() => checkTargets(expansion.targets), [checkTargets, expansion]);
+  const safetyFlags = useMemo(() => checkSafety(expansion.targets), [checkSafety, expansion]);
+  useEffect(() => {
+    setSafetyOverride(false);
+  }, [target]);
+
+  const profile = profiles.find((candidate) => candidate.id === profileId);
+
+  const buildRequest = (): { value?: ScanScheduleRequest; errors: string[] } => {
+    const problems: string[] = [];
+    if (!name.trim()) problems.push('Name the schedule');
+    if (expansion.targets.length === 0) problems.push('Enter at least one target');
+    if (expansion.errors.length > 0 || scopeErrors.length > 0) problems.push('Fix the target errors above');
+    if (safetyFlags.length > 0 && !safetyOverride) problems.push('Confirm the flagged targets above');
+    if (!profile) problems.push('Pick a scanner or profile');
+    const minutes = Number(everyMinutes);
+    if (recurrenceKind === 'interval' && (!Number.isInteger(minutes) || minutes < MIN_INTERVAL_MINUTES)) {
+      problems.push(`Run at most every ${MIN_INTERVAL_MINUTES} minutes`);
+    }
+    const cronError = recurrenceKind === 'cron' ? cronExpressionError(cronExpression) : undefined;
+    if (cronError) problems.push(cronError);
+    if (useWindow && windowStart === windowEnd) problems.push('The time window needs different start and end times');
+    if (problems.length > 0) return { errors: problems };
+
+    const scanner = requireScanner(profile.scanType);
+    return {
+      errors: [],
+      value: {
+        name: name.trim(),
+        targets: expansion.targets.map((candidate) => normalizeTarget(candidate, scanner.category)),
+        type: profile.scanType,
+        options: { ...scanner.defaultOptions, ...profile.options },
+        profileName: profile.builtIn ? undefined : profile.name,
+        recurrence: recurrenceKind === 'interval'
+          ? { kind: 'interval', everyMinutes: minutes }
+          : { kind: 'cron', expression: cronExpression.trim() },
+        window: useWindow ? { start: windowStart, end: windowEnd } : undefined,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      },
+    };
+  };
+
+  const submit = async (request: ScanScheduleRequest) => {
+    setSubmitting(true);
+    try {
+      await onCreate({ ...request, authorization: getAuthorization() });
+      toast({ title: "Schedule created", description: `${request.name} scans ${request.targets.length} target${request.targets.length === 1 ? '' : 's'}` });
+      setName('');
+      setTarget('');
+    } catch (error) {
+      toast({ title: "Could not create schedule", description: describeScanError(error), variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const { value, errors: problems } = buildRequest();
+    setErrors(problems);
+    if (!value) return;
+    if (getAuthorization()) void submit(value);
+    else setPendingCreate(() => () => void submit(value));
+  };
+
+  return (
+    <div className="space-y-5">
+      <AuthorizationDialog
+        open={pendingCreate !== null}
+        onOpenChange={(open) => !open && setPendingCreate(null)}
+        onAuthorized={() => pendingCreate?.()}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="scheduleName" className="block text-sm font-medium text-white/80 mb-3">Name</label>
+          <input
+            id="scheduleName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nightly external perimeter"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor="scheduleProfile" className="block text-sm font-medium text-white/80 mb-3">Scanner or Profile</label>
+          <select
+            id="scheduleProfile"
+            value={profileId}
+            onChange={(e) => setProfileId(e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            {profiles.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.builtIn ? requireScanner(candidate.scanType).label : candidate.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <TargetInput
+        value={target}
+        onChange={setTarget}
+        expansion={expansion}
+        scopeErrors={scopeErrors}
+        safetyFlags={safetyFlags}
+        override={safetyOverride}
+        onOverrideChange={setSafetyOverride}
+        disabled={disabled}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="scheduleRecurrence" className="block text-sm font-medium text-white/80 mb-3">Repeat</label>
+          <div className="flex gap-2">
+            <select
+              id="scheduleRecurrence"
+              value={recurrenceKind}
+              onChange={(e) => setRecurrenceKind(e.target.value as 'interval' | 'cron')}
+              className={`${inputClassName} w-auto`}
+              disabled={disabled}
+            >
+              <option value="interval">Every N minutes</option>
+              <option value="cron">Cron expression</option>
+            </select>
+            {recurrenceKind === 'interval' ? (
+              <input
+                aria-label="Interval in minutes"
+                type="number"
+                min={MIN_INTERVAL_MINUTES}
+                value={everyMinutes}
+                onChange={(e) => setEveryMinutes(e.target.value)}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            ) : (
+              <input
+                aria-label="Cron expression"
+                value={cronExpression}
+                onChange={(e) => setCronExpression(e.target.value)}
+                placeholder="0 3 * * 1-5"
+                className={`${inputClassName} font-mono`}
+                disabled={disabled}
+              />
+            )}
+          </div>
+          <p className="mt-2 text-xs text-white/40">
+            {recurrenceKind === 'interval'
+              ? 'Minutes between runs; 1440 is once a day.'
+              : 'minute hour day-of-month month day-of-week, in your time zone.'}
+          </p>
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <label htmlFor="scheduleWindowStart" className="block text-sm font-medium text-white/80">Time Window</label>
+            <Switch checked={useWindow} onCheckedChange={setUseWindow} disabled={disabled} aria-label="Limit runs to a time window" />
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              id="scheduleWindowStart"
+              type="time"
+              value={windowStart}
+              onChange={(e) => setWindowStart(e.target.value)}
+              className={`${inputClassName} [color-scheme:dark]`}
+              disabled={disabled || !useWindow}
+            />
+            <span className="text-white/40">to</span>
+            <input
+              aria-label="Window end"
+              type="time"
+              value={windowEnd}
+              onChange={(e) => setWindowEnd(e.target.value)}
+              className={`${inputClassName} [color-scheme:dark]`}
+              disabled={disabled || !useWindow}
+            />
+          </div>
+          <p className="mt-2 text-xs text-white/40">Runs due outside the window wait for it to open.</p>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-sm text-red-400">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <motion.button
+        onClick={handleCreate}
+        disabled={disabled || submitting}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        className="px-5 py-2.5 rounded-xl text-sm font-medium flex items-center gap-2 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white shadow-lg shadow-violet-500/25 transition-all disabled:opacity-50"
+      >
+        <CalendarClock className="w-4 h-4" />
+        {submitting ? 'Creating…' : 'Create Schedule'}
+      </motion.button>
+    </div>
+  );
+};
+
+export default ScheduleForm;
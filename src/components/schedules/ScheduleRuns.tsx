@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Eye, Loader2 } from "lucide-react";
+import { useBackend } from "@/contexts/backend-context";
+import { describeScanError, type ScanResult, type ScanSchedule, type ScheduleRun } from "@/lib/scan-client";
+import { getScanner } from "@/scanners";
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'text-green-300',
+  failed: 'text-red-300',
+  running: 'text-violet-300',
+  queued: 'text-white/60',
+  cancelled: 'text-gray-300',
+};
+
+/** Past runs of one schedule; each run's results are fetched from its job on demand. */
+const ScheduleRuns = ({ schedule }: { schedule: ScanSchedule }) => {
+  const { client } = useBackend();
+  const [runs, setRuns] = useState<ScheduleRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [results, setResults] = useState<ScanResult[] | null>(null);
+  const [resultsError, setResultsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    client
+      .listScheduleRuns(schedule.id, { signal: controller.signal })
+      .then(setRuns)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(describeScanError(err));
+      });
+    return () => controller.abort();
+  }, [client, schedule.id]);
+
+  useEffect(() => {
+    const run = runs?.find((candidate) => candidate.id === openRunId);
+    if (!run) return;
+    const controller = new AbortController();
+    setResults(null);
+    setResultsError(null);
+    client
+      .getJob(run.jobId, 0, { signal: controller.signal })
+      .then((job) => setResults(job.result))
+      .catch((err) => {
+        if (!controller.signal.aborted) setResultsError(describeScanError(err));
+      });
+    return () => controller.abort();
+  }, [client, runs, openRunId]);
+
+  const ResultsView = getScanner(schedule.type)?.ResultsView;
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!runs) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-white/60">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading runs…
+      </p>
+    );
+  }
+  if (runs.length === 0) return <p className="text-sm text-white/60">No runs yet.</p>;
+
+  return (
+    <div className="space-y-2">
+      {runs.map((run) => (
+        <div key={run.id} className="rounded-xl border border-white/10 bg-white/[0.03]">
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3 text-sm">
+            <span className="text-white/80">{new Date(run.startedAt).toLocaleString()}</span>
+            <span className="font-mono text-white/70 break-all">{run.target}</span>
+            <span className={`font-medium ${STATUS_STYLES[run.status] ?? 'text-white/60'}`}>{run.status}</span>
+            {run.resultCount !== undefined && <span className="text-white/50">{run.resultCount} results</span>}
+            {run.error && <span className="text-red-300">{run.error}</span>}
+            <button
+              onClick={() => setOpenRunId(openRunId === run.id ? null : run.id)}
+              className="ml-auto flex items-center gap-1 text-xs text-violet-300 hover:text-violet-200 transition-colors"
+            >
+              <Eye className="w-3 h-3" />
+              {openRunId === run.id ? 'Hide results' : 'View results'}
+            </button>
+          </div>
+          {openRunId === run.id && (
+            <div className="px-4 pb-4">
+              {resultsError ? (
+                <p className="text-sm text-red-400">{resultsError}</p>
+              ) : !results ? (
+                <p className="flex items-center gap-2 text-sm text-white/60">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading results…
+                </p>
+              ) : results.length === 0 ? (
+                <p className="text-sm text-white/60">This run found nothing.</p>
+              ) : ResultsView ? (
+                <ResultsView results={results} />
+              ) : (
+                <p className="text-sm text-white/60">No results view for scanner "{schedule.type}".</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScheduleRuns;
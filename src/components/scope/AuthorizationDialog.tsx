@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useScope } from "@/contexts/scope-context";
+
+interface AuthorizationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the acknowledgement is recorded, to start the scan that was waiting on it. */
+  onAuthorized: () => void;
+}
+
+const MAX_LISTED_ENTRIES = 8;
+
+const AuthorizationDialog = ({ open, onOpenChange, onAuthorized }: AuthorizationDialogProps) => {
+  const { scope, acknowledge } = useScope();
+  const [reference, setReference] = useState(scope.engagementRef);
+  const [confirmed, setConfirmed] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setReference(scope.engagementRef);
+    setConfirmed(false);
+  }, [open, scope.engagementRef]);
+
+  const handleConfirm = () => {
+    acknowledge(reference);
+    onOpenChange(false);
+    onAuthorized();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="dark bg-slate-900 text-white border-white/10 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-violet-400" />
+            Confirm authorization
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Live scans are only allowed against the engagement scope. The reference you confirm here is recorded with every scan until the scope changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-sm font-medium text-white/80 mb-2">In scope</p>
+            <p className="text-xs text-white/60 font-mono break-words">
+              {scope.allowed.slice(0, MAX_LISTED_ENTRIES).join(', ')}
+              {scope.allowed.length > MAX_LISTED_ENTRIES && ` and ${scope.allowed.length - MAX_LISTED_ENTRIES} more`}
+            </p>
+            {scope.excluded.length > 0 && (
+              <p className="mt-1 text-xs text-white/40">{scope.excluded.length} exclusions apply</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="engagementRef" className="block text-sm font-medium text-white/80 mb-2">
+              Engagement / authorization reference
+            </label>
+            <input
+              id="engagementRef"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="e.g. SOW-2024-017 or ticket SEC-1234"
+              className="w-full px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all"
+            />
+          </div>
+
+          <label className="flex items-start gap-3 text-sm text-white/70 cursor-pointer">
+            <Checkbox
+              checked={confirmed}
+              onCheckedChange={(checked) => setConfirmed(checked === true)}
+              className="mt-0.5 border-white/30 data-[state=checked]:bg-violet-500 data-[state=checked]:border-violet-500"
+            />
+            I am authorized to test the targets in this scope under the reference above.
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!confirmed || !reference.trim()} className="bg-violet-600 hover:bg-violet-500 text-white">
+            Confirm and scan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AuthorizationDialog;
@@ -0,0 +1,42 @@
+import { createContext, useContext } from "react";
+import type { BackendConfig, BackendConfigOverrides } from "@/lib/config";
+import type { HealthResponse, ScanClient } from "@/lib/scan-client";
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs?: number;
+  health?: HealthResponse;
+  error?: string;
+}
+
+export interface BackendContextValue {
+  /** Effective configuration: shipped config with local overrides applied. */
+  config: BackendConfig;
+  /** Configuration from defaults, env vars and config.json, before overrides. */
+  baseConfig: BackendConfig;
+  overrides: BackendConfigOverrides;
+  loading: boolean;
+  client: ScanClient;
+  backendConnected: boolean;
+  setBackendConnected: (connected: boolean) => void;
+  /** When on, scans produce sample data and exports are watermarked. */
+  demoMode: boolean;
+  setDemoMode: (enabled: boolean) => void;
+  saveOverrides: (overrides: BackendConfigOverrides) => void;
+  resetOverrides: () => void;
+  /**
+   * Hits the health endpoint. Tests `candidate` instead of the saved config
+   * when given, in which case `backendConnected` is left alone.
+   */
+  testConnection: (candidate?: BackendConfig) => Promise<ConnectionTestResult>;
+}
+
+export const BackendContext = createContext<BackendContextValue | null>(null);
+
+export function useBackend() {
+  const context = useContext(BackendContext);
+  if (!context) {
+    throw new Error("useBackend should be used within <BackendProvider>");
+  }
+  return context;
+}
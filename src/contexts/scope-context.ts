@@ -0,0 +1,34 @@
+import { createContext, useContext } from "react";
+import type { ScanAuthorization } from "@/lib/scan-client";
+import type { Scope } from "@/lib/scope";
+
+export interface ScopeContextValue {
+  scope: Scope;
+  /** Replaces the scope. Changing the entries or reference drops the acknowledgement. */
+  saveScope: (scope: Scope) => void;
+  /** Records that the user is authorized to test the scope under `reference`. */
+  acknowledge: (reference: string) => ScanAuthorization;
+  revokeAcknowledgement: () => void;
+  /**
+   * The current acknowledgement, read at call time so a scan started right
+   * after acknowledging still records it.
+   */
+  getAuthorization: () => ScanAuthorization | undefined;
+  /** One message per target that may not be scanned; empty when all are in scope. */
+  checkTargets: (targets: string[]) => string[];
+  /** Entries in scope syntax that always need an explicit override to scan. */
+  denyList: string[];
+  saveDenyList: (entries: string[]) => void;
+  /** One message per reserved or deny-listed target; scanning them needs an override. */
+  checkSafety: (targets: string[]) => string[];
+}
+
+export const ScopeContext = createContext<ScopeContextValue | null>(null);
+
+export function useScope() {
+  const context = useContext(ScopeContext);
+  if (!context) {
+    throw new Error("useScope should be used within <ScopeProvider>");
+  }
+  return context;
+}
@@ -0,0 +1,18 @@
+import { useCallback } from "react";
+import { useStageQueue } from "@/hooks/use-stage-queue";
+import { createStage, type PipelineStage, type PipelineStep } from "@/lib/pipeline";
+
+/** Queues one scan per target with the same scanner and options. */
+export function useBulkScan() {
+  const { stages, isRunning, progress, execute, runQueue, stop } = useStageQueue();
+
+  const start = useCallback(
+    (targets: string[], step: PipelineStep): Promise<PipelineStage[]> => {
+      const queue = targets.map((target) => createStage(step, target));
+      return execute(queue, () => runQueue(queue));
+    },
+    [execute, runQueue]
+  );
+
+  return { stages, isRunning, progress, start, stop };
+}
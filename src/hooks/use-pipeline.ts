@@ -0,0 +1,31 @@
+import { useCallback } from "react";
+import { useStageQueue } from "@/hooks/use-stage-queue";
+import {
+  createStage,
+  planFollowUpStages,
+  webTargetsFromPortScan,
+  type PipelineConfig,
+  type PipelineStage,
+} from "@/lib/pipeline";
+
+export function usePipeline() {
+  const { stages, isRunning, progress, execute, runStage, runQueue, appendStages, stop } = useStageQueue();
+
+  /** Runs the whole pipeline and resolves with every stage in its final state. */
+  const start = useCallback(
+    (target: string, config: PipelineConfig): Promise<PipelineStage[]> => {
+      const discovery = createStage(config.discovery, target);
+      return execute([discovery], async () => {
+        const discovered = await runStage(discovery);
+        if (discovered.status !== "completed") return [discovered];
+
+        const followUps = planFollowUpStages(config, webTargetsFromPortScan(target, discovered.results));
+        appendStages(followUps);
+        return [discovered, ...(await runQueue(followUps))];
+      });
+    },
+    [appendStages, execute, runQueue, runStage]
+  );
+
+  return { stages, isRunning, progress, start, stop };
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  clearScanHistory,
+  deleteScanRecord,
+  listScanRecords,
+  type ScanRecordSummary,
+} from "@/lib/scan-history";
+
+export function useScanHistory() {
+  const [records, setRecords] = useState<ScanRecordSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRecords(await listScanRecords());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteScanRecord(id);
+    setRecords((previous) => previous.filter((record) => record.id !== id));
+  }, []);
+
+  const clear = useCallback(async () => {
+    await clearScanHistory();
+    setRecords([]);
+  }, []);
+
+  return { records, loading, error, refresh, remove, clear };
+}
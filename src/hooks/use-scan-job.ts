@@ -0,0 +1,86 @@
+import { useCallback, useRef, useState } from "react";
+import { useBackend } from "@/contexts/backend-context";
+import { useScope } from "@/contexts/scope-context";
+import { ScanAbortedError, TERMINAL_JOB_STATUSES, type ScanJob, type ScanJobStatus, type ScanRequest, type ScanResult } from "@/lib/scan-client";
+import { ScanCancelError, SYNC_JOB_ID, runScanJob, type ScanJobOutcome } from "@/lib/scan-jobs";
+
+export interface ScanProgressState {
+  jobId?: string;
+  status: ScanJobStatus;
+  /** 0-100, or undefined while the backend cannot estimate it. */
+  percent?: number;
+  phase?: string;
+  startedAt: Date;
+  resultCount: number;
+}
+
+interface RunOptions {
+  onResults?: (newResults: ScanResult[]) => void;
+}
+
+export function useScanJob() {
+  const { client, config } = useBackend();
+  const { getAuthorization } = useScope();
+  const [progress, setProgress] = useState<ScanProgressState | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(
+    async (request: ScanRequest, options: RunOptions = {}): Promise<ScanJobOutcome> => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const startedAt = new Date();
+      let lastJob: ScanJob = { id: "", status: "queued", result: [], offset: 0 };
+      let received: ScanResult[] = [];
+      setProgress({ status: "queued", startedAt, resultCount: 0 });
+
+      try {
+        // Every live scan carries the engagement it was authorized under, for the backend's records.
+        return await runScanJob(client, { ...request, authorization: getAuthorization() }, {
+          signal: controller.signal,
+          transport: config.transport,
+          onUpdate: ({ job, newResults, results }) => {
+            lastJob = job;
+            received = results;
+            setProgress({
+              jobId: job.id,
+              status: job.status,
+              percent: job.progress,
+              phase: job.phase,
+              startedAt,
+              resultCount: results.length,
+            });
+            if (newResults.length > 0) options.onResults?.(newResults);
+          },
+        });
+      } catch (error) {
+        // A user cancellation is an outcome, not a failure: hand back what we got
+        // once the backend confirms the job is stopped.
+        if (error instanceof ScanAbortedError && controller.signal.aborted) {
+          if (lastJob.id && lastJob.id !== SYNC_JOB_ID && !TERMINAL_JOB_STATUSES.includes(lastJob.status)) {
+            try {
+              lastJob = { ...(await client.cancelJob(lastJob.id)), result: lastJob.result, offset: lastJob.offset };
+            } catch (cancelError) {
+              throw new ScanCancelError(lastJob.id, cancelError);
+            }
+          }
+          return { job: { ...lastJob, status: "cancelled" }, results: [...received] };
+        }
+        throw error;
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
+        setProgress(null);
+      }
+    },
+    [client, config.transport, getAuthorization]
+  );
+
+  /**
+   * Stops following the running scan. `run` then asks the backend to kill the
+   * job, waiting for it to be created first if Stop came during POST /scans.
+   */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { progress, run, cancel };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  builtInProfiles,
+  createProfileId,
+  loadProfiles,
+  saveProfiles,
+  type ScanProfile,
+} from "@/lib/profiles";
+
+export function useScanProfiles() {
+  const [customProfiles, setCustomProfiles] = useState<ScanProfile[]>(loadProfiles);
+
+  const profiles = useMemo(() => [...builtInProfiles(), ...customProfiles], [customProfiles]);
+
+  // Persisting inside the updater keeps storage in step with state even when
+  // several changes are queued in one render.
+  const update = useCallback((change: (previous: ScanProfile[]) => ScanProfile[]) => {
+    setCustomProfiles((previous) => {
+      const next = change(previous);
+      saveProfiles(next);
+      return next;
+    });
+  }, []);
+
+  const saveProfile = useCallback(
+    (profile: ScanProfile) =>
+      update((previous) =>
+        previous.some((existing) => existing.id === profile.id)
+          ? previous.map((existing) => (existing.id === profile.id ? profile : existing))
+          : [...previous, profile]
+      ),
+    [update]
+  );
+
+  const deleteProfile = useCallback(
+    (id: string) => update((previous) => previous.filter((profile) => profile.id !== id)),
+    [update]
+  );
+
+  const duplicateProfile = useCallback(
+    (source: ScanProfile): ScanProfile => {
+      const copy: ScanProfile = {
+        id: createProfileId(),
+        name: `${source.name} (copy)`,
+        scanType: source.scanType,
+        options: { ...source.options },
+      };
+      update((previous) => [...previous, copy]);
+      return copy;
+    },
+    [update]
+  );
+
+  const importProfiles = useCallback(
+    (imported: ScanProfile[]) => update((previous) => [...previous, ...imported]),
+    [update]
+  );
+
+  return { profiles, customProfiles, saveProfile, deleteProfile, duplicateProfile, importProfiles };
+}
+
+export type ScanProfilesApi = ReturnType<typeof useScanProfiles>;
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from "react";
+import { useBackend } from "@/contexts/backend-context";
+import { describeScanError, type ScanSchedule, type ScanScheduleRequest } from "@/lib/scan-client";
+
+/** Recurring scans kept and run by the backend. Nothing is fetched in demo mode. */
+export function useSchedules() {
+  const { client, demoMode, loading: configLoading } = useBackend();
+  const [schedules, setSchedules] = useState<ScanSchedule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSchedules(await client.listSchedules());
+      setError(null);
+    } catch (err) {
+      setError(describeScanError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    if (demoMode || configLoading) return;
+    void refresh();
+  }, [demoMode, configLoading, refresh]);
+
+  const replace = (updated: ScanSchedule) =>
+    setSchedules((previous) => previous.map((schedule) => (schedule.id === updated.id ? updated : schedule)));
+
+  const create = useCallback(
+    async (request: ScanScheduleRequest) => {
+      const created = await client.createSchedule(request);
+      setSchedules((previous) => [...previous, created]);
+      return created;
+    },
+    [client]
+  );
+
+  const setPaused = useCallback(
+    async (id: string, paused: boolean) => {
+      replace(await client.setSchedulePaused(id, paused));
+    },
+    [client]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await client.deleteSchedule(id);
+      setSchedules((previous) => previous.filter((schedule) => schedule.id !== id));
+    },
+    [client]
+  );
+
+  return { schedules, loading, error, refresh, create, setPaused, remove };
+}
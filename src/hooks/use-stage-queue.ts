@@ -0,0 +1,105 @@
+import { useCallback, useRef, useState } from "react";
+import { useBackend } from "@/contexts/backend-context";
+import { useScope } from "@/contexts/scope-context";
+import { useScanJob } from "@/hooks/use-scan-job";
+import type { PipelineStage } from "@/lib/pipeline";
+import { describeScanError, type ScanJobStatus } from "@/lib/scan-client";
+import { recordScan } from "@/lib/scan-history";
+import { requireScanner } from "@/scanners";
+
+/**
+ * Runs scan stages one at a time through the job API (or demo data) and keeps
+ * their live status. Shared by the full assessment pipeline and bulk scans.
+ */
+export function useStageQueue() {
+  const { demoMode, setBackendConnected } = useBackend();
+  const { getAuthorization } = useScope();
+  const { progress, run, cancel } = useScanJob();
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const stoppedRef = useRef(false);
+
+  const updateStage = useCallback((id: string, change: (stage: PipelineStage) => Partial<PipelineStage>) => {
+    setStages((previous) => previous.map((stage) => (stage.id === id ? { ...stage, ...change(stage) } : stage)));
+  }, []);
+
+  const runStage = useCallback(
+    async (stage: PipelineStage): Promise<PipelineStage> => {
+      updateStage(stage.id, () => ({ status: "running" }));
+      const startedAt = new Date();
+      let finished: PipelineStage;
+      if (demoMode) {
+        finished = { ...stage, status: "completed", results: requireScanner(stage.scanType).demoResults() };
+      } else {
+        try {
+          const { job, results } = await run(
+            { target: stage.target, type: stage.scanType, options: stage.options },
+            { onResults: (newResults) => updateStage(stage.id, (current) => ({ results: [...current.results, ...newResults] })) }
+          );
+          setBackendConnected(true);
+          finished = { ...stage, status: job.status, results, error: job.error };
+        } catch (error) {
+          finished = { ...stage, status: "failed", error: describeScanError(error) };
+        }
+      }
+      updateStage(stage.id, () => finished);
+      recordScan(
+        {
+          type: stage.scanType,
+          target: stage.target,
+          timestamp: new Date(),
+          status: finished.status as ScanJobStatus,
+          demo: demoMode,
+          options: stage.options,
+          authorization: demoMode ? undefined : getAuthorization(),
+        },
+        finished.results,
+        startedAt
+      );
+      return finished;
+    },
+    [demoMode, getAuthorization, run, setBackendConnected, updateStage]
+  );
+
+  /** Runs stages in order; once stopped, the ones not yet started are marked skipped. */
+  const runQueue = useCallback(
+    async (queue: PipelineStage[]): Promise<PipelineStage[]> => {
+      const finished: PipelineStage[] = [];
+      for (const stage of queue) {
+        if (stoppedRef.current) {
+          const skipped: PipelineStage = { ...stage, status: "skipped" };
+          updateStage(stage.id, () => skipped);
+          finished.push(skipped);
+          continue;
+        }
+        finished.push(await runStage(stage));
+      }
+      return finished;
+    },
+    [runStage, updateStage]
+  );
+
+  const appendStages = useCallback((more: PipelineStage[]) => {
+    setStages((previous) => [...previous, ...more]);
+  }, []);
+
+  /** Replaces the stage list with `initial` and reports running until `work` settles. */
+  const execute = useCallback(async <T>(initial: PipelineStage[], work: () => Promise<T>): Promise<T> => {
+    stoppedRef.current = false;
+    setIsRunning(true);
+    setStages(initial);
+    try {
+      return await work();
+    } finally {
+      setIsRunning(false);
+    }
+  }, []);
+
+  /** Cancels the running stage and skips the ones that have not started. */
+  const stop = useCallback(() => {
+    stoppedRef.current = true;
+    cancel();
+  }, [cancel]);
+
+  return { stages, isRunning, progress, execute, runStage, runQueue, appendStages, stop };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState, type UIEvent } from "react";
+
+interface VirtualRowsOptions {
+  count: number;
+  /** Every row must render at exactly this height, in pixels. */
+  rowHeight: number;
+  /** Rows rendered beyond each edge of the viewport, so fast scrolling does not flash. */
+  overscan?: number;
+  /** When false every row is rendered and the container does not scroll. */
+  enabled: boolean;
+}
+
+/**
+ * Windowing for long fixed-height lists: only the rows in (or near) the
+ * scroll container's viewport are rendered, with padding standing in for the rest.
+ */
+export function useVirtualRows({ count, rowHeight, overscan = 10, enabled }: VirtualRowsOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => setScrollTop(event.currentTarget.scrollTop), []);
+
+  const scrollToTop = useCallback(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, []);
+
+  if (!enabled) {
+    return { containerRef, onScroll, scrollToTop, start: 0, end: count, paddingTop: 0, paddingBottom: 0 };
+  }
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return {
+    containerRef,
+    onScroll,
+    scrollToTop,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+  };
+}
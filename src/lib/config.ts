@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+const optionalString = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => (value ? value : undefined));
+
+/**
+ * How the UI follows a running scan job: Server-Sent Events, a WebSocket, or
+ * plain polling. Streaming transports fall back to polling if they cannot connect.
+ */
+export const streamTransportSchema = z.enum(["sse", "websocket", "poll"]);
+
+export type StreamTransport = z.infer<typeof streamTransportSchema>;
+
+const backendUrlSchema = z.string().trim().url("Enter a valid URL, e.g. https://scanner.example.com");
+
+export const backendConfigFileSchema = z.object({
+  backendUrl: optionalString.pipe(backendUrlSchema.optional()),
+  authToken: optionalString,
+  transport: streamTransportSchema.optional().catch(undefined),
+});
+
+/** Saved overrides keep an empty `authToken`, which means "send no token" rather than "use the shipped one". */
+const backendConfigOverridesSchema = backendConfigFileSchema.extend({
+  authToken: z.string().trim().optional(),
+});
+
+export const backendConfigSchema = z.object({
+  backendUrl: backendUrlSchema,
+  authToken: optionalString,
+  transport: streamTransportSchema.default("sse"),
+});
+
+export type BackendConfig = z.infer<typeof backendConfigSchema>;
+
+export type BackendConfigOverrides = Partial<BackendConfig>;
+
+const OVERRIDES_STORAGE_KEY = "securescan.backend-config";
+const DEMO_MODE_STORAGE_KEY = "securescan.demo-mode";
+const CONFIG_FILE_PATH = `${import.meta.env.BASE_URL}config.json`;
+
+const definedOnly = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+
+const DEFAULT_BACKEND_URL = import.meta.env.DEV ? "http://localhost:5000" : window.location.origin;
+
+/** Configuration baked into the build: defaults overridden by Vite env vars. */
+export function loadEnvConfig(): BackendConfig {
+  const parsed = backendConfigFileSchema.safeParse({
+    backendUrl: import.meta.env.VITE_BACKEND_URL,
+    authToken: import.meta.env.VITE_BACKEND_AUTH_TOKEN,
+  });
+  if (!parsed.success) console.warn("Ignoring invalid VITE_BACKEND_* settings:", parsed.error.issues);
+  const fromEnv: BackendConfigOverrides = parsed.success ? parsed.data : {};
+  return {
+    backendUrl: fromEnv.backendUrl ?? DEFAULT_BACKEND_URL,
+    authToken: fromEnv.authToken,
+    transport: "sse",
+  };
+}
+
+/**
+ * Build-time configuration overridden by the `config.json` served next to the
+ * app. The file is fetched at runtime so one build can be pointed at any backend.
+ */
+export async function loadBaseConfig(): Promise<BackendConfig> {
+  const fromEnv = loadEnvConfig();
+
+  let fromFile: BackendConfigOverrides = {};
+  try {
+    const response = await fetch(CONFIG_FILE_PATH, { cache: "no-store" });
+    if (response.ok) {
+      const parsed = backendConfigFileSchema.safeParse(await response.json());
+      if (parsed.success) {
+        fromFile = parsed.data;
+      } else {
+        console.warn("Ignoring invalid config.json:", parsed.error.issues);
+      }
+    }
+  } catch (error) {
+    console.warn("Could not load config.json:", error);
+  }
+
+  return { ...fromEnv, ...definedOnly(fromFile) };
+}
+
+export function loadConfigOverrides(): BackendConfigOverrides {
+  try {
+    const raw = localStorage.getItem(OVERRIDES_STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = backendConfigOverridesSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveConfigOverrides(overrides: BackendConfigOverrides) {
+  const cleaned = backendConfigOverridesSchema.parse(overrides);
+  if (Object.keys(definedOnly(cleaned)).length === 0) {
+    localStorage.removeItem(OVERRIDES_STORAGE_KEY);
+    return;
+  }
+  localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(definedOnly(cleaned)));
+}
+
+export function clearConfigOverrides() {
+  localStorage.removeItem(OVERRIDES_STORAGE_KEY);
+}
+
+export function resolveConfig(base: BackendConfig, overrides: BackendConfigOverrides): BackendConfig {
+  const resolved = { ...base, ...definedOnly(overrides) };
+  return { ...resolved, authToken: resolved.authToken || undefined };
+}
+
+/** Demo mode is opt-in per browser: scans return canned sample data and never hit the backend. */
+export function loadDemoMode(): boolean {
+  return localStorage.getItem(DEMO_MODE_STORAGE_KEY) === "true";
+}
+
+export function saveDemoMode(enabled: boolean) {
+  if (enabled) {
+    localStorage.setItem(DEMO_MODE_STORAGE_KEY, "true");
+  } else {
+    localStorage.removeItem(DEMO_MODE_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,60 @@
+import type { FindingEntity } from "@/lib/scan-model";
+
+// Headers curl sets itself from the URL and body.
+const SKIPPED_HEADERS = new Set(["host", "content-length"]);
+
+/** Quotes a value for POSIX shells. */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Turns a raw HTTP/1.x request into a curl command. The scheme comes from
+ * `findingUrl` when given, since the raw request does not carry it.
+ */
+export function curlFromRawRequest(raw: string, findingUrl?: string): string | undefined {
+  const [head, ...bodyParts] = raw.split(/\r?\n\r?\n/);
+  const [requestLine, ...headerLines] = head.split(/\r?\n/);
+  const match = /^([A-Z]+)\s+(\S+)(?:\s+HTTP\/[\d.]+)?$/.exec(requestLine.trim());
+  if (!match) return undefined;
+  const [, method, path] = match;
+
+  const headers = headerLines
+    .map((line) => /^([^:]+):\s*(.*)$/.exec(line))
+    .filter((header): header is RegExpExecArray => header !== null);
+  const host = headers.find(([, name]) => name.toLowerCase() === "host")?.[2];
+
+  let url: string;
+  try {
+    const base = findingUrl ? new URL(findingUrl) : undefined;
+    url = new URL(path, host ? `${base?.protocol ?? "https:"}//${host}` : base).toString();
+  } catch {
+    return undefined;
+  }
+
+  const parts = ["curl", "-i"];
+  if (method !== "GET") parts.push("-X", method);
+  headers
+    .filter(([, name]) => !SKIPPED_HEADERS.has(name.toLowerCase()))
+    .forEach(([, name, value]) => parts.push("-H", shellQuote(`${name}: ${value}`)));
+  const body = bodyParts.join("\n\n");
+  if (body) parts.push("--data-raw", shellQuote(body));
+  parts.push(shellQuote(url));
+  return parts.join(" ");
+}
+
+/** A curl command reproducing the finding, or undefined when there is not enough to go on. */
+export function curlForFinding({ evidence, location, method }: FindingEntity): string | undefined {
+  // Locations may be bare paths when the scanner did not report the full URL.
+  const url = location && /^https?:\/\//i.test(location) ? location : undefined;
+  if (evidence.curlCommand) return evidence.curlCommand;
+  if (evidence.request) {
+    const fromRequest = curlFromRawRequest(evidence.request, url);
+    if (fromRequest) return fromRequest;
+  }
+  if (!url) return undefined;
+  // The method comes from scanner output or an imported report, so anything but a bare verb is dropped.
+  const verb = method?.toUpperCase();
+  const flag = verb && /^[A-Z]+$/.test(verb) && verb !== "GET" ? ` -X ${verb}` : "";
+  return `curl -i${flag} ${shellQuote(url)}`;
+}
@@ -0,0 +1,2 @@
+/** Shown on every screen and export that contains sample data. */
+export const DEMO_NOTICE = "DEMO DATA - simulated results, not real findings";
@@ -0,0 +1,193 @@
+import jsPDF from "jspdf";
+import type { ScanAuthorization, ScanJobStatus } from "@/lib/scan-client";
+import { DEMO_NOTICE } from "@/lib/demo-data";
+import type { HostEntity, ScanEntity } from "@/lib/scan-model";
+
+export interface ScanInfo {
+  type: string;
+  target: string;
+  timestamp: Date;
+  status: ScanJobStatus;
+  demo: boolean;
+  /** Scanner options the scan ran with. */
+  options?: Record<string, unknown>;
+  /** Saved profile the scan was started from, if any. */
+  profileName?: string;
+  /** Engagement acknowledgement the scan ran under; absent for demo scans. */
+  authorization?: ScanAuthorization;
+  /** Name of the report file the results were imported from, for scans run outside SecureScan. */
+  importedFrom?: string;
+}
+
+/** Tracks the write position in a report and starts new pages as needed. */
+export interface PdfCursor {
+  pdf: jsPDF;
+  margin: number;
+  pageWidth: number;
+  y: number;
+  ensureSpace: (height: number) => void;
+  /** Writes one line at `indent` from the margin and moves down by `advance`. */
+  text: (text: string, indent?: number, advance?: number) => void;
+  /** Writes text wrapped to the page width. */
+  wrapped: (text: string, indent?: number, lineHeight?: number) => void;
+  gap: (height: number) => void;
+}
+
+export function createPdfCursor(pdf: jsPDF, margin = 20): PdfCursor {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+
+  const cursor: PdfCursor = {
+    pdf,
+    margin,
+    pageWidth,
+    y: margin,
+    ensureSpace: (height) => {
+      if (cursor.y + height > pageHeight - margin) {
+        pdf.addPage();
+        cursor.y = margin;
+      }
+    },
+    text: (text, indent = 0, advance = 8) => {
+      cursor.ensureSpace(advance);
+      pdf.text(text, margin + indent, cursor.y);
+      cursor.y += advance;
+    },
+    wrapped: (text, indent = 0, lineHeight = 5) => {
+      const lines: string[] = pdf.splitTextToSize(text, pageWidth - margin * 2 - indent);
+      lines.forEach((line) => cursor.text(line, indent, lineHeight));
+    },
+    gap: (height) => {
+      cursor.y += height;
+    },
+  };
+  return cursor;
+}
+
+export interface ReportSection {
+  /** Section heading; single-scan reports use the default "Scan Results:". */
+  title?: string;
+  entities: ScanEntity[];
+  /** Results that could not be read as entities, noted under the heading. */
+  skipped?: number;
+  /** Writes extra lines after an entity, e.g. what changed between two scans. */
+  annotate?: (cursor: PdfCursor, entity: ScanEntity, index: number) => void;
+}
+
+const INDENT = 10;
+
+/** Writes one entity; called with the cursor already indented past its number. */
+function renderEntity(cursor: PdfCursor, entity: ScanEntity) {
+  const renderScripts = (scripts: HostEntity["scripts"]) =>
+    scripts.forEach((script) => cursor.wrapped(`${script.id}: ${script.output}`, INDENT));
+  switch (entity.kind) {
+    case 'host':
+      cursor.text(`Host: ${entity.address}${entity.hostnames.length > 0 ? ` (${entity.hostnames.join(', ')})` : ''}${entity.state ? `, ${entity.state}` : ''}`, INDENT);
+      entity.osMatches.forEach((match) => cursor.text(`OS: ${match.name}${match.accuracy !== undefined ? ` (${match.accuracy}%)` : ''}`, INDENT));
+      renderScripts(entity.scripts);
+      break;
+    case 'service':
+      cursor.text(`Port: ${entity.port}/${entity.protocol}${entity.host ? ` on ${entity.host}` : ''}`, INDENT);
+      cursor.text(`State: ${entity.state}${entity.reason ? ` (${entity.reason})` : ''}`, INDENT);
+      cursor.text(`Service: ${[entity.name || 'N/A', entity.product, entity.version].filter(Boolean).join(' ')}`, INDENT);
+      if (entity.cpe.length > 0) cursor.wrapped(`CPE: ${entity.cpe.join(', ')}`, INDENT);
+      renderScripts(entity.scripts);
+      break;
+    case 'finding': {
+      const { classification } = entity;
+      cursor.wrapped(`Title: ${entity.title}`, INDENT);
+      cursor.text(`Severity: ${entity.severity.toUpperCase()}${entity.confidence ? ` (${entity.confidence})` : ''}${entity.ruleId ? `, Rule: ${entity.ruleId}` : ''}`, INDENT);
+      if (entity.location) cursor.wrapped(`Location: ${entity.method ? `${entity.method} ` : ''}${entity.location}`, INDENT);
+      const ids = [...classification.cve, ...classification.cwe];
+      if (classification.cvssScore !== undefined) ids.push(`CVSS ${classification.cvssScore.toFixed(1)}`);
+      if (ids.length > 0) cursor.wrapped(`Classification: ${ids.join(', ')}`, INDENT);
+      if (entity.description && entity.description !== entity.title) cursor.wrapped(entity.description, INDENT);
+      if (entity.remediation) cursor.wrapped(`Remediation: ${entity.remediation}`, INDENT);
+      if (entity.references.length > 0) cursor.wrapped(`References: ${entity.references.join(', ')}`, INDENT);
+      break;
+    }
+  }
+}
+
+export interface ScanReportOptions {
+  info: ScanInfo;
+  sections: ReportSection[];
+  /** Report heading; defaults to "SecureScan Report". */
+  title?: string;
+  /** Extra lines printed under the scan info. */
+  notes?: string[];
+}
+
+export function buildScanReport({ info, sections, title = 'SecureScan Report', notes = [] }: ScanReportOptions): jsPDF {
+  const pdf = new jsPDF();
+  const cursor = createPdfCursor(pdf);
+
+  // Add title
+  pdf.setFontSize(20);
+  cursor.text(title, 0, 15);
+
+  // Add scan info
+  pdf.setFontSize(12);
+  cursor.text(`Target: ${info.target}`, 0, 10);
+  cursor.text(`Scan Type: ${info.type.toUpperCase()}`, 0, 10);
+  if (info.profileName) cursor.text(`Profile: ${info.profileName}`, 0, 10);
+  cursor.text(`Timestamp: ${info.timestamp.toLocaleString()}`, 0, 10);
+  cursor.text(`Status: ${info.status}`, 0, 10);
+  if (info.authorization) {
+    cursor.text(`Authorization: ${info.authorization.reference} (acknowledged ${new Date(info.authorization.acknowledgedAt).toLocaleString()})`, 0, 10);
+  }
+  if (info.options && Object.keys(info.options).length > 0) {
+    const summary = Object.entries(info.options)
+      .filter(([, value]) => value !== '' && value !== undefined)
+      .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : String(value)}`)
+      .join(', ');
+    if (summary) cursor.wrapped(`Options: ${summary}`, 0, 6);
+    cursor.gap(4);
+  }
+  const source = info.demo ? 'Demo Mode (sample data)' : info.importedFrom ? `Imported from ${info.importedFrom}` : 'Live Backend';
+  cursor.text(`Data Source: ${source}`, 0, 10);
+  notes.forEach((note) => cursor.wrapped(note, 0, 6));
+  if (info.demo) {
+    pdf.setTextColor(200, 0, 0);
+    cursor.text(DEMO_NOTICE, 0, 10);
+    pdf.setTextColor(0, 0, 0);
+  }
+  cursor.gap(10);
+
+  // Add results
+  sections.forEach((section) => {
+    pdf.setFontSize(16);
+    cursor.ensureSpace(40);
+    cursor.text(section.title ?? 'Scan Results:', 0, 15);
+
+    pdf.setFontSize(10);
+    if (section.skipped > 0) {
+      cursor.text(`${section.skipped} results were left out because they could not be read.`, 0, 10);
+    }
+    if (section.entities.length === 0) {
+      cursor.text('No results.', 0, 10);
+    }
+    section.entities.forEach((entity, index) => {
+      cursor.ensureSpace(30);
+      pdf.text(`${index + 1}.`, cursor.margin, cursor.y);
+      renderEntity(cursor, entity);
+      section.annotate?.(cursor, entity, index);
+      cursor.gap(5);
+    });
+    cursor.gap(10);
+  });
+
+  // Watermark every page of a demo report
+  if (info.demo) {
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    for (let page = 1; page <= pdf.getNumberOfPages(); page++) {
+      pdf.setPage(page);
+      pdf.setFontSize(60);
+      pdf.setTextColor(220, 220, 220);
+      pdf.text('DEMO DATA', cursor.pageWidth / 2, pageHeight / 2, { align: 'center', angle: 45 });
+    }
+    pdf.setTextColor(0, 0, 0);
+  }
+
+  return pdf;
+}
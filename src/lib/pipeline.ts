@@ -0,0 +1,92 @@
+import type { ScanJobStatus, ScanResult } from "@/lib/scan-client";
+import { normalizeResults, type FindingEntity } from "@/lib/scan-model";
+import { normalizeTarget, parseTarget } from "@/lib/targets";
+import { findingsFromEntities, mergeFindings, type MergedFinding } from "@/lib/unified-findings";
+import { requireScanner } from "@/scanners";
+
+export type PipelineStageStatus = "pending" | "skipped" | ScanJobStatus;
+
+export interface PipelineStage {
+  id: string;
+  scanType: string;
+  target: string;
+  options: Record<string, unknown>;
+  status: PipelineStageStatus;
+  results: ScanResult[];
+  error?: string;
+}
+
+export interface PipelineStep {
+  scanType: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * A full assessment: one discovery scan against the target, then every enabled
+ * follow-up scanner against each web service the discovery scan found.
+ */
+export interface PipelineConfig {
+  discovery: PipelineStep;
+  followUps: PipelineStep[];
+}
+
+const WEB_PORTS = new Set(["80", "81", "443", "591", "3000", "5000", "8000", "8008", "8080", "8081", "8443", "8888", "9443"]);
+const TLS_PORTS = new Set(["443", "8443", "9443"]);
+
+/** Turns open ports from a port scan into base URLs for web scanners. */
+export function webTargetsFromPortScan(target: string, results: ScanResult[]): string[] {
+  const host = parseTarget(target).target?.host ?? target.trim();
+  const formattedHost = host.includes(":") ? `[${host}]` : host;
+  const urls = results
+    .filter((result) => result.state === "open" && result.port)
+    .filter((result) => /http|www/i.test(result.service ?? "") || WEB_PORTS.has(result.port))
+    .map((result) => {
+      const tls = /https|ssl|tls/i.test(result.service ?? "") || TLS_PORTS.has(result.port);
+      const scheme = tls ? "https" : "http";
+      const defaultPort = tls ? "443" : "80";
+      return `${scheme}://${formattedHost}${result.port === defaultPort ? "" : `:${result.port}`}`;
+    });
+  return [...new Set(urls)];
+}
+
+let stageCounter = 0;
+
+/** Creates a pending stage, rewriting the target into the form its scanner expects. */
+export function createStage(step: PipelineStep, target: string): PipelineStage {
+  stageCounter += 1;
+  return {
+    id: `stage-${stageCounter}`,
+    scanType: step.scanType,
+    target: normalizeTarget(target, requireScanner(step.scanType).category),
+    options: step.options,
+    status: "pending",
+    results: [],
+  };
+}
+
+export function planFollowUpStages(config: PipelineConfig, webTargets: string[]): PipelineStage[] {
+  return config.followUps.flatMap((step) => webTargets.map((webTarget) => createStage(step, webTarget)));
+}
+
+export interface HostFindings {
+  host: string;
+  findings: MergedFinding[];
+}
+
+/**
+ * Every stage's findings and open ports merged per host, so the discovery scan
+ * and the web scans that followed it read as one result. Scanners
+ * `corroborates` rejects are listed but never confirm an issue.
+ */
+export function combineStageFindings(stages: PipelineStage[], corroborates?: (scanner: string) => boolean): HostFindings[] {
+  const byHost = new Map<string, FindingEntity[]>();
+  stages.forEach((stage) => {
+    // Nmap scans a host while web scanners scan its URLs; both count as the same host.
+    const host = normalizeTarget(stage.target, "network").toLowerCase();
+    const { entities } = normalizeResults(requireScanner(stage.scanType), stage.results);
+    byHost.set(host, [...(byHost.get(host) ?? []), ...findingsFromEntities(entities)]);
+  });
+  return [...byHost]
+    .filter(([, findings]) => findings.length > 0)
+    .map(([host, findings]) => ({ host, findings: mergeFindings(findings, corroborates) }));
+}
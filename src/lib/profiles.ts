@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { createId } from "@/lib/utils";
+import { getScanner, listScanners } from "@/scanners";
+
+export const scanProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Profile name is required").max(80),
+  scanType: z.string().min(1),
+  options: z.record(z.unknown()),
+  /** Built-in profiles mirror each scanner's defaults and cannot be edited or deleted. */
+  builtIn: z.boolean().optional(),
+});
+
+export type ScanProfile = z.infer<typeof scanProfileSchema>;
+
+const PROFILES_STORAGE_KEY = "securescan.scan-profiles";
+const PROFILES_EXPORT_FORMAT = "securescan-profiles";
+
+const profilesFileSchema = z.object({
+  format: z.literal(PROFILES_EXPORT_FORMAT),
+  version: z.literal(1),
+  profiles: z.array(scanProfileSchema.omit({ builtIn: true })),
+});
+
+export const createProfileId = () => createId();
+
+export function builtInProfiles(): ScanProfile[] {
+  return listScanners().map((scanner) => ({
+    id: `builtin:${scanner.id}`,
+    name: `${scanner.toolName} defaults`,
+    scanType: scanner.id,
+    options: scanner.defaultOptions,
+    builtIn: true,
+  }));
+}
+
+/**
+ * Checks a profile against the registry: the scanner must exist and the options
+ * must satisfy its schema. Returns the profile with parsed options, or an error.
+ */
+export function validateProfile(profile: ScanProfile): { profile?: ScanProfile; error?: string } {
+  const scanner = getScanner(profile.scanType);
+  if (!scanner) {
+    return { error: `"${profile.name}" uses an unknown scanner "${profile.scanType}"` };
+  }
+  const parsed = scanner.optionsSchema.safeParse({ ...scanner.defaultOptions, ...profile.options });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: `"${profile.name}" has invalid ${issue.path.join(".")}: ${issue.message}` };
+  }
+  return { profile: { ...profile, options: parsed.data } };
+}
+
+export function loadProfiles(): ScanProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = z.array(scanProfileSchema).safeParse(JSON.parse(raw));
+    if (!parsed.success) return [];
+    return parsed.data.flatMap((profile) => {
+      const { profile: valid } = validateProfile(profile);
+      return valid ? [valid] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: ScanProfile[]) {
+  const stored = profiles.filter((profile) => !profile.builtIn);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(stored));
+}
+
+export function exportProfiles(profiles: ScanProfile[]): string {
+  return JSON.stringify(
+    {
+      format: PROFILES_EXPORT_FORMAT,
+      version: 1,
+      profiles: profiles
+        .filter((profile) => !profile.builtIn)
+        .map(({ id, name, scanType, options }) => ({ id, name, scanType, options })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parses an exported profiles file. Every imported profile gets a fresh id so
+ * importing the same file twice never overwrites local edits.
+ */
+export function parseProfilesFile(text: string): { profiles: ScanProfile[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { profiles: [], errors: ["File is not valid JSON"] };
+  }
+  const parsed = profilesFileSchema.safeParse(data);
+  if (!parsed.success) {
+    return { profiles: [], errors: ["File is not a SecureScan profiles export"] };
+  }
+
+  const profiles: ScanProfile[] = [];
+  const errors: string[] = [];
+  parsed.data.profiles.forEach((profile) => {
+    const { profile: valid, error } = validateProfile({ ...profile, id: createProfileId() });
+    if (valid) profiles.push(valid);
+    else errors.push(error);
+  });
+  return { profiles, errors };
+}
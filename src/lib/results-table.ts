@@ -0,0 +1,76 @@
+import type { ReactNode } from "react";
+import type { ScanResult } from "@/lib/scan-client";
+
+/** One column of a scanner's results table. */
+export interface ResultColumn {
+  id: string;
+  label: string;
+  /** Plain text used for search, filters and the default sort. */
+  value: (result: ScanResult) => string;
+  /** Cell contents; defaults to `value`. */
+  render?: (result: ScanResult) => ReactNode;
+  /** Sort order when the plain text order is wrong, e.g. severities. */
+  compare?: (a: ScanResult, b: ScanResult) => number;
+  /** Offers a filter on this column's distinct values. */
+  filterable?: boolean;
+  /** Starts hidden; users can show it from the columns menu. */
+  hiddenByDefault?: boolean;
+  className?: string;
+}
+
+export interface ResultSort {
+  columnId: string;
+  direction: "asc" | "desc";
+}
+
+/** Column id to required value; empty values are ignored. */
+export type ResultFilters = Record<string, string>;
+
+// Numeric collation sorts ports and counts as numbers ("22" before "443").
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+export function filterResults(
+  results: ScanResult[],
+  columns: ResultColumn[],
+  search: string,
+  filters: ResultFilters
+): ScanResult[] {
+  const query = search.trim().toLowerCase();
+  const active = columns.filter((column) => filters[column.id]);
+  if (!query && active.length === 0) return results;
+  return results.filter(
+    (result) =>
+      active.every((column) => column.value(result) === filters[column.id]) &&
+      (!query || columns.some((column) => column.value(result).toLowerCase().includes(query)))
+  );
+}
+
+export function sortResults(results: ScanResult[], columns: ResultColumn[], sort: ResultSort | null): ScanResult[] {
+  const column = sort && columns.find((candidate) => candidate.id === sort.columnId);
+  if (!column) return results;
+  const compare = column.compare ?? ((a: ScanResult, b: ScanResult) => collator.compare(column.value(a), column.value(b)));
+  const sign = sort.direction === "asc" ? 1 : -1;
+  // Array.prototype.sort is stable, so equal rows keep the scanner's order.
+  return [...results].sort((a, b) => sign * compare(a, b));
+}
+
+/** Distinct values of a column, for its filter menu. */
+export function columnValues(results: ScanResult[], column: ResultColumn): string[] {
+  return [...new Set(results.map(column.value).filter(Boolean))].sort(collator.compare);
+}
+
+/**
+ * Page numbers (zero based) to show in a pager: the first and last page, and
+ * the pages around the current one, with null where pages are skipped.
+ */
+export function pageWindow(page: number, pageCount: number, spread = 1): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let index = 0; index < pageCount; index++) {
+    if (index === 0 || index === pageCount - 1 || Math.abs(index - page) <= spread) {
+      pages.push(index);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { compileRules } from "@/lib/scope";
+import { loadDenyList, reservedAddressLabel, safetyFlag, saveDenyList } from "@/lib/safeguards";
+
+describe("reservedAddressLabel", () => {
+  it.each([
+    ["127.0.0.1", "a loopback address"],
+    ["localhost", "a loopback address"],
+    ["app.localhost.", "a loopback address"],
+    ["10.1.2.3", "a private (RFC 1918) address"],
+    ["172.31.255.255", "a private (RFC 1918) address"],
+    ["192.168.0.1:8080", "a private (RFC 1918) address"],
+    ["169.254.1.1", "a link-local address"],
+    ["169.254.169.254", "a cloud metadata service"],
+    ["http://100.100.100.200/latest", "a cloud metadata service"],
+    ["metadata.google.internal", "a cloud metadata service"],
+    ["224.0.0.1", "a multicast address"],
+    ["::1", "a loopback address"],
+    ["::ffff:10.0.0.1", "a private (RFC 1918) address"],
+    ["fe80::1", "a link-local address"],
+    ["fd12::1", "a private (unique local) address"],
+    ["ff02::1", "a multicast address"],
+    ["[fd00:ec2::254]", "a cloud metadata service"],
+  ])("flags %s as %s", (target, label) => {
+    expect(reservedAddressLabel(target)).toBe(label);
+  });
+
+  it.each(["8.8.8.8", "172.32.0.1", "example.com", "2001:db8::1", "::ffff:8.8.8.8"])("leaves %s alone", (target) => {
+    expect(reservedAddressLabel(target)).toBeUndefined();
+  });
+
+  it("flags ranges that overlap reserved space anywhere", () => {
+    expect(reservedAddressLabel("8.0.0.0/7")).toBeUndefined();
+    expect(reservedAddressLabel("8.0.0.0/6")).toBe("a private (RFC 1918) address");
+    expect(reservedAddressLabel("169.254.169.0/24")).toBe("a cloud metadata service");
+    expect(reservedAddressLabel("fc00::/6")).toBe("a cloud metadata service");
+    expect(reservedAddressLabel("8000::/1")).toBe("a cloud metadata service");
+    expect(reservedAddressLabel("fe00::/8")).toBe("a link-local address");
+    expect(reservedAddressLabel("2001:db8::/32")).toBeUndefined();
+  });
+});
+
+describe("safetyFlag", () => {
+  const denyList = compileRules(["prod.example.com", "203.0.113.0/24"]);
+
+  it("explains reserved addresses and ranges", () => {
+    expect(safetyFlag("127.0.0.1", denyList)).toBe("127.0.0.1 is a loopback address");
+    expect(safetyFlag("10.0.0.0/30", denyList)).toBe("10.0.0.0/30 includes a private (RFC 1918) address");
+  });
+
+  it("flags targets on the deny-list", () => {
+    expect(safetyFlag("https://prod.example.com/", denyList)).toBe("https://prod.example.com/ is on the deny-list");
+    expect(safetyFlag("203.0.113.0/23", denyList)).toBe("203.0.113.0/23 is on the deny-list");
+  });
+
+  it("returns null for other targets", () => {
+    expect(safetyFlag("staging.example.com", denyList)).toBeNull();
+  });
+});
+
+describe("deny-list storage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips entries and ignores malformed storage", () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+
+    saveDenyList(["prod.example.com"]);
+    expect(loadDenyList()).toEqual(["prod.example.com"]);
+
+    store.set("securescan.deny-list", "{not json");
+    expect(loadDenyList()).toEqual([]);
+  });
+});
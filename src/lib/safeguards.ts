@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { rulesOverlap, type ScopeRule } from "@/lib/scope";
+import { canonicalIpv6, parseIpv4, parseTarget } from "@/lib/targets";
+
+const DENY_LIST_STORAGE_KEY = "securescan.deny-list";
+
+interface ReservedRange {
+  first: number;
+  last: number;
+  label: string;
+}
+
+const reservedBlock = (block: string, label: string): ReservedRange => {
+  const [base, prefix] = block.split("/");
+  const first = parseIpv4(base);
+  return { first, last: first + 2 ** (32 - Number(prefix)) - 1, label };
+};
+
+// Checked in order, so the metadata address wins over the link-local block it sits in.
+const RESERVED_IPV4: ReservedRange[] = [
+  reservedBlock("169.254.169.254/32", "a cloud metadata service"),
+  reservedBlock("100.100.100.200/32", "a cloud metadata service"),
+  reservedBlock("0.0.0.0/8", "an unspecified address"),
+  reservedBlock("127.0.0.0/8", "a loopback address"),
+  reservedBlock("169.254.0.0/16", "a link-local address"),
+  reservedBlock("10.0.0.0/8", "a private (RFC 1918) address"),
+  reservedBlock("172.16.0.0/12", "a private (RFC 1918) address"),
+  reservedBlock("192.168.0.0/16", "a private (RFC 1918) address"),
+  reservedBlock("224.0.0.0/4", "a multicast address"),
+  reservedBlock("240.0.0.0/4", "a reserved address"),
+];
+
+const RESERVED_HOSTNAMES: Record<string, string> = {
+  "localhost": "a loopback address",
+  "metadata.google.internal": "a cloud metadata service",
+  "instance-data": "a cloud metadata service",
+  "instance-data.ec2.internal": "a cloud metadata service",
+};
+
+function reservedIpv4Label(first: number, last: number): string | undefined {
+  return RESERVED_IPV4.find((range) => first <= range.last && last >= range.first)?.label;
+}
+
+interface ReservedIpv6Range {
+  first: bigint;
+  last: bigint;
+  label: string;
+}
+
+function parseIpv6(address: string): bigint {
+  const [head, tail] = canonicalIpv6(address).split("::");
+  const hextets = (part: string | undefined) => (part ? part.split(":") : []);
+  const groups = tail === undefined
+    ? hextets(head)
+    : [...hextets(head), ...Array(8 - hextets(head).length - hextets(tail).length).fill("0"), ...hextets(tail)];
+  return groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n);
+}
+
+const reservedIpv6Block = (block: string, label: string): ReservedIpv6Range => {
+  const [base, prefix] = block.split("/");
+  const first = parseIpv6(base);
+  return { first, last: first + (1n << BigInt(128 - Number(prefix))) - 1n, label };
+};
+
+// IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4 blocks.
+const IPV4_MAPPED = reservedIpv6Block("::ffff:0:0/96", "an IPv4-mapped address");
+
+const RESERVED_IPV6: ReservedIpv6Range[] = [
+  reservedIpv6Block("fd00:ec2::254/128", "a cloud metadata service"),
+  reservedIpv6Block("::/128", "an unspecified address"),
+  reservedIpv6Block("::1/128", "a loopback address"),
+  reservedIpv6Block("fe80::/10", "a link-local address"),
+  reservedIpv6Block("fc00::/7", "a private (unique local) address"),
+  reservedIpv6Block("ff00::/8", "a multicast address"),
+];
+
+function reservedIpv6Label(first: bigint, last: bigint): string | undefined {
+  if (first <= IPV4_MAPPED.last && last >= IPV4_MAPPED.first) {
+    const mappedFirst = Number((first > IPV4_MAPPED.first ? first : IPV4_MAPPED.first) - IPV4_MAPPED.first);
+    const mappedLast = Number((last < IPV4_MAPPED.last ? last : IPV4_MAPPED.last) - IPV4_MAPPED.first);
+    const label = reservedIpv4Label(mappedFirst, mappedLast);
+    if (label) return label;
+  }
+  return RESERVED_IPV6.find((range) => first <= range.last && last >= range.first)?.label;
+}
+
+/**
+ * Names the reserved space a target falls in (loopback, link-local, private,
+ * multicast or cloud metadata), or undefined for public targets. CIDR targets
+ * are flagged when any part of the range is reserved.
+ */
+export function reservedAddressLabel(target: string): string | undefined {
+  const { target: parsed } = parseTarget(target);
+  if (!parsed) return undefined;
+
+  if (parsed.kind === "cidr") {
+    const [base, prefix] = parsed.host.split("/");
+    const address = parseIpv4(base);
+    if (address === null) {
+      const v6Address = parseIpv6(base);
+      const v6Size = 1n << BigInt(128 - Number(prefix));
+      const v6First = v6Address - (v6Address % v6Size);
+      return reservedIpv6Label(v6First, v6First + v6Size - 1n);
+    }
+    const size = 2 ** (32 - Number(prefix));
+    const first = address - (address % size);
+    return reservedIpv4Label(first, first + size - 1);
+  }
+
+  const address = parseIpv4(parsed.host);
+  if (address !== null) return reservedIpv4Label(address, address);
+  if (parsed.host.includes(":")) {
+    const v6Address = parseIpv6(parsed.host);
+    return reservedIpv6Label(v6Address, v6Address);
+  }
+  const hostname = parsed.host.toLowerCase().replace(/\.$/, "");
+  return RESERVED_HOSTNAMES[hostname] ?? (hostname.endsWith(".localhost") ? "a loopback address" : undefined);
+}
+
+/**
+ * Explains why scanning a target needs an explicit override: it is reserved
+ * address space or on the deny-list. Returns null for everything else.
+ */
+export function safetyFlag(target: string, denyList: ScopeRule[]): string | null {
+  const reserved = reservedAddressLabel(target);
+  if (reserved) return `${target} ${parseTarget(target).target?.kind === "cidr" ? "includes" : "is"} ${reserved}`;
+  if (rulesOverlap(target, denyList)) return `${target} is on the deny-list`;
+  return null;
+}
+
+export function loadDenyList(): string[] {
+  try {
+    const raw = localStorage.getItem(DENY_LIST_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = z.array(z.string()).safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveDenyList(entries: string[]) {
+  localStorage.setItem(DENY_LIST_STORAGE_KEY, JSON.stringify(entries));
+}
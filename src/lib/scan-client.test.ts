@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ScanAbortedError,
+  ScanHttpError,
+  ScanNetworkError,
+  ScanSchemaError,
+  ScanTimeoutError,
+  createScanClient,
+  describeScanError,
+} from "@/lib/scan-client";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const job = { id: "job-1", status: "running", progress: 40, result: [{ port: "22", state: "open" }] };
+
+// A fetch that never answers and only rejects once the request is aborted.
+const hangingFetch = () =>
+  vi.fn((_url: string, init: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init.signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+    })
+  );
+
+const clientWith = (fetch: typeof globalThis.fetch, options: { retries?: number; timeoutMs?: number; authToken?: string } = {}) =>
+  createScanClient({ baseUrl: "https://scanner.test/", retryDelayMs: 1, fetch, ...options });
+
+describe("createScanClient", () => {
+  it("parses responses and fills in defaults", async () => {
+    const fetch = vi.fn(async () => json(job));
+    const parsed = await clientWith(fetch).getJob("job-1", 3);
+
+    expect(parsed).toEqual({ ...job, offset: 0 });
+    expect(fetch).toHaveBeenCalledWith("https://scanner.test/scans/job-1?offset=3", expect.objectContaining({ method: "GET" }));
+  });
+
+  it("sends the auth token as a bearer header", async () => {
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) => json({ status: "ok" }));
+    await clientWith(fetch, { authToken: "secret" }).health();
+
+    expect(new Headers(fetch.mock.calls[0][1].headers).get("Authorization")).toBe("Bearer secret");
+  });
+
+  it("rejects responses that do not match the schema", async () => {
+    const error = await clientWith(vi.fn(async () => json({ id: "job-1", status: "exploded" }))).getJob("job-1").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ScanSchemaError);
+    expect(error.issues[0].path).toEqual(["status"]);
+  });
+
+  it("keeps info severities and drops unknown ones instead of failing the response", async () => {
+    const fetch = vi.fn(async () =>
+      json({ ...job, result: [{ title: "a", severity: "info" }, { title: "b", severity: "unknown" }, { title: "c", severity: "HIGH" }] })
+    );
+    const parsed = await clientWith(fetch).getJob("job-1");
+
+    expect(parsed.result.map((result) => result.severity)).toEqual(["info", undefined, "high"]);
+  });
+
+  it("rejects bodies that are not JSON", async () => {
+    const fetch = vi.fn(async () => new Response("<html>", { status: 200 }));
+
+    await expect(clientWith(fetch).health()).rejects.toBeInstanceOf(ScanSchemaError);
+  });
+
+  it("validates requests before sending them", () => {
+    const fetch = vi.fn();
+
+    expect(() => clientWith(fetch).createJob({ target: " ", type: "nmap" })).toThrow();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("reports HTTP errors with their status and body", async () => {
+    const error = await clientWith(vi.fn(async () => new Response("denied", { status: 403 }))).health().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ScanHttpError);
+    expect(error).toMatchObject({ status: 403, body: "denied" });
+    expect(describeScanError(error)).toContain("auth token");
+  });
+
+  it("reports failed connections as network errors", async () => {
+    const fetch = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    await expect(clientWith(fetch).health()).rejects.toBeInstanceOf(ScanNetworkError);
+  });
+
+  it("times out slow requests", async () => {
+    const error = await clientWith(hangingFetch(), { timeoutMs: 5 }).health().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ScanTimeoutError);
+    expect(error.timeoutMs).toBe(5);
+  });
+
+  it("lets a request override the client's timeout", async () => {
+    const error = await clientWith(hangingFetch(), { timeoutMs: 60000 }).health({ timeoutMs: 5 }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ScanTimeoutError);
+  });
+
+  it("reports aborted requests as aborted", async () => {
+    const controller = new AbortController();
+    const pending = clientWith(hangingFetch()).health({ signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(ScanAbortedError);
+  });
+
+  it("retries transient failures", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(json({ status: "ok" }));
+
+    await expect(clientWith(fetch, { retries: 2 }).health()).resolves.toEqual({ status: "ok" });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const fetch = vi.fn(async () => new Response("", { status: 502 }));
+
+    await expect(clientWith(fetch, { retries: 1 }).health()).rejects.toBeInstanceOf(ScanHttpError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry requests that could start a second scan", async () => {
+    const fetch = vi.fn(async () => new Response("", { status: 503 }));
+
+    await expect(clientWith(fetch, { retries: 3 }).createJob({ target: "example.com", type: "nmap" })).rejects.toBeInstanceOf(ScanHttpError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetch = vi.fn(async () => new Response("", { status: 404 }));
+
+    await expect(clientWith(fetch, { retries: 3 }).health()).rejects.toBeInstanceOf(ScanHttpError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads the stream endpoint's status without waiting for the stream", async () => {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      expect(new Headers(init.headers).get("Authorization")).toBe("Bearer secret");
+      return new Response(new ReadableStream(), { status: 404 });
+    });
+
+    await expect(clientWith(fetch, { authToken: "secret" }).streamStatus("job-1", "sse")).resolves.toBe(404);
+    expect(fetch).toHaveBeenCalledWith("https://scanner.test/scans/job-1/events", expect.anything());
+  });
+});
@@ -0,0 +1,517 @@
+import { z } from "zod";
+
+/** Id of a registered scanner, see `src/scanners`. */
+export const scanTypeSchema = z.string().trim().min(1, "Scan type is required");
+
+export type ScanType = z.infer<typeof scanTypeSchema>;
+
+export const severitySchema = z.enum(["low", "medium", "high", "critical"]);
+
+export type Severity = z.infer<typeof severitySchema>;
+
+/** Unlike scan options, findings may be informational. */
+export const findingSeveritySchema = z.enum(["info", "low", "medium", "high", "critical"]);
+
+export type FindingSeverity = z.infer<typeof findingSeveritySchema>;
+
+/** How sure a scanner is that a finding is real, for scanners that say. */
+export const confidenceSchema = z.enum(["confirmed", "firm", "tentative"]);
+
+export type Confidence = z.infer<typeof confidenceSchema>;
+
+export const scanResultSchema = z.object({
+  port: z.string().optional(),
+  state: z.string().optional(),
+  service: z.string().optional(),
+  // Severities are matched case-insensitively; unrecognised ones, such as
+  // Nuclei's "unknown", are dropped rather than failing the whole response.
+  severity: z
+    .preprocess((value) => (typeof value === "string" ? value.toLowerCase() : value), findingSeveritySchema)
+    .optional()
+    .catch(undefined),
+  url: z.string().optional(),
+  description: z.string().optional(),
+  endpoint: z.string().optional(),
+  title: z.string().optional(),
+  // Host and service details from imported Nmap reports.
+  host: z.string().optional(),
+  hostnames: z.array(z.string()).optional(),
+  protocol: z.string().optional(),
+  reason: z.string().optional(),
+  product: z.string().optional(),
+  version: z.string().optional(),
+  cpe: z.array(z.string()).optional(),
+  scripts: z.array(z.object({ id: z.string(), output: z.string() })).optional(),
+  osMatches: z.array(z.object({ name: z.string(), accuracy: z.number().optional() })).optional(),
+  // Finding details, shown in the finding drawer when the scanner reports them.
+  templateId: z.string().optional(),
+  matcherName: z.string().optional(),
+  extractedResults: z.array(z.string()).optional(),
+  method: z.string().optional(),
+  /** Raw HTTP request and response that triggered the finding. */
+  request: z.string().optional(),
+  response: z.string().optional(),
+  curlCommand: z.string().optional(),
+  cve: z.array(z.string()).optional(),
+  cwe: z.array(z.string()).optional(),
+  cvssScore: z.number().min(0).max(10).optional(),
+  /** CVSS vector, e.g. "CVSS:3.1/AV:N/AC:L/...". */
+  cvssMetrics: z.string().optional(),
+  remediation: z.string().optional(),
+  references: z.array(z.string()).optional(),
+  confidence: confidenceSchema.optional(),
+  /** Nikto test ID and OSVDB reference, e.g. "999986" and "OSVDB-3092". */
+  testId: z.string().optional(),
+  osvdb: z.string().optional(),
+});
+
+export type ScanResult = z.infer<typeof scanResultSchema>;
+
+/** The engagement a scan was authorized under, recorded with every live scan. */
+export const scanAuthorizationSchema = z.object({
+  reference: z.string().trim().min(1, "Engagement reference is required"),
+  /** ISO timestamp of when the user confirmed the authorization. */
+  acknowledgedAt: z.string(),
+});
+
+export type ScanAuthorization = z.infer<typeof scanAuthorizationSchema>;
+
+export const scanRequestSchema = z.object({
+  target: z.string().trim().min(1, "Target is required"),
+  type: scanTypeSchema,
+  /** Scanner specific settings, validated by the scanner's own options schema. */
+  options: z.record(z.unknown()).optional(),
+  authorization: scanAuthorizationSchema.optional(),
+});
+
+export type ScanRequest = z.infer<typeof scanRequestSchema>;
+
+export const scanResponseSchema = z.object({
+  result: z.array(scanResultSchema).default([]),
+});
+
+export type ScanResponse = z.infer<typeof scanResponseSchema>;
+
+export const scanJobStatusSchema = z.enum(["queued", "running", "completed", "failed", "cancelled"]);
+
+export type ScanJobStatus = z.infer<typeof scanJobStatusSchema>;
+
+export const TERMINAL_JOB_STATUSES: readonly ScanJobStatus[] = ["completed", "failed", "cancelled"];
+
+export const scanJobSchema = z.object({
+  id: z.string().min(1),
+  status: scanJobStatusSchema,
+  /** Overall completion, 0-100, when the backend can estimate it. */
+  progress: z.number().min(0).max(100).optional(),
+  /** Human readable step, e.g. "service detection" or "templates 120/4000". */
+  phase: z.string().optional(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+  /** Results from `offset` onwards; the backend only sends what the client has not seen. */
+  result: z.array(scanResultSchema).default([]),
+  offset: z.number().int().nonnegative().default(0),
+});
+
+export type ScanJob = z.infer<typeof scanJobSchema>;
+
+/** Either a fixed interval or a five-field cron expression, evaluated by the backend. */
+export const scheduleRecurrenceSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("interval"), everyMinutes: z.number().int().positive() }),
+  z.object({ kind: z.literal("cron"), expression: z.string().trim().min(1) }),
+]);
+
+export type ScheduleRecurrence = z.infer<typeof scheduleRecurrenceSchema>;
+
+/** Local times of day ("HH:MM") a run may start in; `end` before `start` spans midnight. */
+export const scheduleWindowSchema = z.object({
+  start: z.string().regex(/^\d{2}:\d{2}$/),
+  end: z.string().regex(/^\d{2}:\d{2}$/),
+});
+
+export type ScheduleWindow = z.infer<typeof scheduleWindowSchema>;
+
+export const scanScheduleRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  /** Every run scans each of these targets. */
+  targets: z.array(z.string().trim().min(1)).min(1, "At least one target is required"),
+  type: scanTypeSchema,
+  options: z.record(z.unknown()).optional(),
+  profileName: z.string().optional(),
+  recurrence: scheduleRecurrenceSchema,
+  window: scheduleWindowSchema.optional(),
+  /** IANA zone the cron expression and window are read in. */
+  timezone: z.string().min(1),
+  authorization: scanAuthorizationSchema.optional(),
+});
+
+export type ScanScheduleRequest = z.infer<typeof scanScheduleRequestSchema>;
+
+export const scheduleRunSchema = z.object({
+  id: z.string().min(1),
+  /** Job holding the run's results, see `GET /scans/:id`. */
+  jobId: z.string().min(1),
+  target: z.string(),
+  status: scanJobStatusSchema,
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  resultCount: z.number().int().nonnegative().optional(),
+  error: z.string().optional(),
+});
+
+export type ScheduleRun = z.infer<typeof scheduleRunSchema>;
+
+export const scanScheduleSchema = scanScheduleRequestSchema.extend({
+  id: z.string().min(1),
+  paused: z.boolean().default(false),
+  createdAt: z.string().optional(),
+  nextRunAt: z.string().optional(),
+  lastRun: scheduleRunSchema.optional(),
+});
+
+export type ScanSchedule = z.infer<typeof scanScheduleSchema>;
+
+export const healthResponseSchema = z
+  .object({
+    status: z.string().optional(),
+    version: z.string().optional(),
+  })
+  .passthrough();
+
+export type HealthResponse = z.infer<typeof healthResponseSchema>;
+
+export class ScanClientError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "ScanClientError";
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/** The request never reached the backend (DNS, CORS, connection refused...). */
+export class ScanNetworkError extends ScanClientError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ScanNetworkError";
+  }
+}
+
+export class ScanTimeoutError extends ScanClientError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = "ScanTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class ScanHttpError extends ScanClientError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(status: number, body: string) {
+    super(`HTTP error! status: ${status}`);
+    this.name = "ScanHttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** The backend answered, but not with the shape we expect. */
+export class ScanSchemaError extends ScanClientError {
+  readonly issues: z.ZodIssue[];
+
+  constructor(issues: z.ZodIssue[]) {
+    super(`Unexpected response from backend: ${issues.map((issue) => `${issue.path.join(".") || "(root)"} ${issue.message}`).join("; ")}`);
+    this.name = "ScanSchemaError";
+    this.issues = issues;
+  }
+}
+
+export class ScanAbortedError extends ScanClientError {
+  constructor() {
+    super("Request was aborted");
+    this.name = "ScanAbortedError";
+  }
+}
+
+/** One-line explanation of a scan client failure, suitable for a toast. */
+export function describeScanError(error: unknown): string {
+  if (error instanceof ScanNetworkError) return "Could not reach the backend. Check the URL in Settings and that the server is running.";
+  if (error instanceof ScanTimeoutError) return `The backend did not answer within ${Math.round(error.timeoutMs / 1000)} seconds.`;
+  if (error instanceof ScanHttpError) {
+    if (error.status === 401 || error.status === 403) return `The backend rejected the request (HTTP ${error.status}). Check the auth token in Settings.`;
+    return `The backend returned HTTP ${error.status}.`;
+  }
+  if (error instanceof ScanSchemaError) return error.message;
+  if (error instanceof Error) return error.message;
+  return "Unknown error";
+}
+
+export interface ScanClientOptions {
+  baseUrl: string;
+  /** Sent as a bearer token on every request when set. */
+  authToken?: string;
+  /** Per-attempt timeout. Defaults to 10 seconds. */
+  timeoutMs?: number;
+  /**
+   * Extra attempts after a network error, timeout or 5xx response. Only GET
+   * requests are retried: a POST the backend did accept would start a second scan.
+   */
+  retries?: number;
+  /** Delay before the first retry; doubled for every following one. */
+  retryDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Overrides the client's per-attempt timeout for this request. */
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/** Errors worth retrying: the backend may answer the same request next time. */
+export const isTransientError = (error: unknown) =>
+  error instanceof ScanNetworkError ||
+  error instanceof ScanTimeoutError ||
+  (error instanceof ScanHttpError && error.status >= 500);
+
+/** Resolves after `ms`, or rejects with {@link ScanAbortedError} once `signal` aborts. */
+export const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ScanAbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new ScanAbortedError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export function createScanClient(options: ScanClientOptions) {
+  const {
+    baseUrl,
+    authToken,
+    timeoutMs: defaultTimeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = 0,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  } = options;
+  const fetchImpl = options.fetch ?? ((...args: Parameters<typeof fetch>) => fetch(...args));
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const attempt = async <T>(
+    path: string,
+    init: RequestInit,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    { signal, timeoutMs = defaultTimeoutMs }: RequestOptions,
+  ): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      let response: Response;
+      try {
+        const headers = new Headers(init.headers);
+        if (authToken) headers.set("Authorization", `Bearer ${authToken}`);
+        response = await fetchImpl(`${root}${path}`, { ...init, headers, signal: controller.signal });
+      } catch (error) {
+        if (timedOut) throw new ScanTimeoutError(timeoutMs);
+        if (signal?.aborted) throw new ScanAbortedError();
+        throw new ScanNetworkError(error instanceof Error ? error.message : "Network request failed", { cause: error });
+      }
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new ScanHttpError(response.status, body);
+      }
+
+      let data: unknown;
+      try {
+        // 204 No Content (e.g. after a delete) has no body to parse.
+        data = response.status === 204 ? undefined : await response.json();
+      } catch (error) {
+        if (timedOut) throw new ScanTimeoutError(timeoutMs);
+        if (signal?.aborted) throw new ScanAbortedError();
+        throw new ScanSchemaError([{ code: "custom", path: [], message: "Response body is not valid JSON" }]);
+      }
+
+      const parsed = schema.safeParse(data);
+      if (!parsed.success) {
+        throw new ScanSchemaError(parsed.error.issues);
+      }
+      return parsed.data;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const request = async <T>(path: string, init: RequestInit, schema: z.ZodType<T, z.ZodTypeDef, unknown>, requestOptions: RequestOptions = {}): Promise<T> => {
+    const { signal } = requestOptions;
+    const maxRetries = init.method === "GET" ? retries : 0;
+    for (let attemptIndex = 0; ; attemptIndex++) {
+      try {
+        return await attempt(path, init, schema, requestOptions);
+      } catch (error) {
+        if (attemptIndex >= maxRetries || !isTransientError(error)) throw error;
+        await delay(retryDelayMs * 2 ** attemptIndex, signal);
+      }
+    }
+  };
+
+  return {
+    health: (requestOptions?: RequestOptions): Promise<HealthResponse> =>
+      request("/health", { method: "GET" }, healthResponseSchema, requestOptions),
+
+    scan: (scanRequest: ScanRequest, requestOptions?: RequestOptions): Promise<ScanResponse> => {
+      const body = scanRequestSchema.parse(scanRequest);
+      return request(
+        "/scan",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+        scanResponseSchema,
+        requestOptions,
+      );
+    },
+
+    createJob: (scanRequest: ScanRequest, requestOptions?: RequestOptions): Promise<ScanJob> => {
+      const body = scanRequestSchema.parse(scanRequest);
+      return request(
+        "/scans",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+        scanJobSchema,
+        requestOptions,
+      );
+    },
+
+    cancelJob: (jobId: string, requestOptions?: RequestOptions): Promise<ScanJob> =>
+      request(
+        `/scans/${encodeURIComponent(jobId)}/cancel`,
+        { method: "POST" },
+        scanJobSchema,
+        requestOptions,
+      ),
+
+    /**
+     * URL for following a job live. Browsers cannot set headers on EventSource
+     * or WebSocket connections, so the auth token travels as `access_token`.
+     */
+    streamUrl: (jobId: string, offset: number, transport: "sse" | "websocket"): string => {
+      const path = transport === "sse" ? "events" : "stream";
+      const url = new URL(`${root}/scans/${encodeURIComponent(jobId)}/${path}`, window.location.href);
+      url.searchParams.set("offset", String(offset));
+      if (authToken) url.searchParams.set("access_token", authToken);
+      if (transport === "websocket") url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+      return url.toString();
+    },
+
+    /**
+     * HTTP status of a job's stream endpoint, read from the response headers
+     * alone. EventSource and WebSocket do not say why a connection failed, so
+     * this tells a backend without streaming apart from a dropped connection.
+     */
+    streamStatus: async (jobId: string, transport: "sse" | "websocket", { signal, timeoutMs = defaultTimeoutMs }: RequestOptions = {}): Promise<number> => {
+      const path = transport === "sse" ? "events" : "stream";
+      const controller = new AbortController();
+      let timedOut = false;
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      try {
+        const headers = new Headers();
+        if (authToken) headers.set("Authorization", `Bearer ${authToken}`);
+        const response = await fetchImpl(`${root}/scans/${encodeURIComponent(jobId)}/${path}`, { method: "GET", headers, signal: controller.signal });
+        return response.status;
+      } catch (error) {
+        if (timedOut) throw new ScanTimeoutError(timeoutMs);
+        if (signal?.aborted) throw new ScanAbortedError();
+        throw new ScanNetworkError(error instanceof Error ? error.message : "Network request failed", { cause: error });
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+        // A working stream never ends; only its status was needed.
+        controller.abort();
+      }
+    },
+
+    getJob: (jobId: string, offset = 0, requestOptions?: RequestOptions): Promise<ScanJob> =>
+      request(
+        `/scans/${encodeURIComponent(jobId)}?offset=${offset}`,
+        { method: "GET" },
+        scanJobSchema,
+        requestOptions,
+      ),
+
+    listSchedules: (requestOptions?: RequestOptions): Promise<ScanSchedule[]> =>
+      request("/schedules", { method: "GET" }, z.array(scanScheduleSchema), requestOptions),
+
+    createSchedule: (scheduleRequest: ScanScheduleRequest, requestOptions?: RequestOptions): Promise<ScanSchedule> => {
+      const body = scanScheduleRequestSchema.parse(scheduleRequest);
+      return request(
+        "/schedules",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+        scanScheduleSchema,
+        requestOptions,
+      );
+    },
+
+    setSchedulePaused: (scheduleId: string, paused: boolean, requestOptions?: RequestOptions): Promise<ScanSchedule> =>
+      request(
+        `/schedules/${encodeURIComponent(scheduleId)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ paused }),
+        },
+        scanScheduleSchema,
+        requestOptions,
+      ),
+
+    deleteSchedule: (scheduleId: string, requestOptions?: RequestOptions): Promise<unknown> =>
+      request(`/schedules/${encodeURIComponent(scheduleId)}`, { method: "DELETE" }, z.unknown(), requestOptions),
+
+    /** Past runs of a schedule, newest first. */
+    listScheduleRuns: (scheduleId: string, requestOptions?: RequestOptions): Promise<ScheduleRun[]> =>
+      request(
+        `/schedules/${encodeURIComponent(scheduleId)}/runs`,
+        { method: "GET" },
+        z.array(scheduleRunSchema),
+        requestOptions,
+      ),
+  };
+}
+
+export type ScanClient = ReturnType<typeof createScanClient>;
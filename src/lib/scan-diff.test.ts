@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { countDiff, describeChanges, diffScanResults } from "@/lib/scan-diff";
+import type { ScanDiffSpec } from "@/scanners/types";
+
+const ports: ScanDiffSpec = {
+  key: (result) => `${result.port}/${result.protocol ?? "tcp"}`,
+  include: (result) => result.state === "open",
+  compare: ["service"],
+  describe: (result) => `${result.port}/${result.service}`,
+  labels: { added: "Opened ports", removed: "Closed ports", changed: "Service changed" },
+};
+
+describe("diffScanResults", () => {
+  it("sorts items into added, removed, changed and unchanged", () => {
+    const rows = diffScanResults(
+      ports,
+      [
+        { port: "22", state: "open", service: "ssh" },
+        { port: "80", state: "open", service: "http" },
+        { port: "21", state: "open", service: "ftp" },
+      ],
+      [
+        { port: "22", state: "open", service: "ssh" },
+        { port: "80", state: "open", service: "http-proxy" },
+        { port: "443", state: "open", service: "https" },
+      ]
+    );
+
+    expect(rows.map(({ key, kind }) => [key, kind])).toEqual([
+      ["22/tcp", "unchanged"],
+      ["80/tcp", "changed"],
+      ["443/tcp", "added"],
+      ["21/tcp", "removed"],
+    ]);
+    expect(rows[1].changedFields).toEqual(["service"]);
+    expect(describeChanges(rows[1])).toBe("service: http -> http-proxy");
+    expect(countDiff(rows)).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 1 });
+  });
+
+  it("only compares the results the spec includes", () => {
+    const rows = diffScanResults(ports, [{ port: "22", state: "open" }], [{ port: "22", state: "filtered" }]);
+
+    expect(rows.map((row) => row.kind)).toEqual(["removed"]);
+  });
+
+  it("pairs repeated items one to one", () => {
+    const finding = { title: "Outdated server", url: "/" };
+    const findings: ScanDiffSpec = { ...ports, key: (result) => `${result.title}@${result.url}`, include: undefined, compare: [] };
+
+    const rows = diffScanResults(findings, [finding, finding], [finding]);
+
+    expect(rows.map(({ key, kind }) => [key, kind])).toEqual([
+      ["Outdated server@/", "unchanged"],
+      ["Outdated server@/#1", "removed"],
+    ]);
+  });
+
+  it("treats a missing field like an empty one", () => {
+    const rows = diffScanResults(ports, [{ port: "22", state: "open", service: "" }], [{ port: "22", state: "open" }]);
+
+    expect(rows[0].kind).toBe("unchanged");
+  });
+});
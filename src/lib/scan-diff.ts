@@ -0,0 +1,71 @@
+import type { ScanResult } from "@/lib/scan-client";
+import type { ScanDiffSpec } from "@/scanners/types";
+
+export type ScanDiffKind = "added" | "removed" | "changed" | "unchanged";
+
+/** One item of a comparison; `before` is absent for added items, `after` for removed ones. */
+export interface ScanDiffRow {
+  key: string;
+  kind: ScanDiffKind;
+  before?: ScanResult;
+  after?: ScanResult;
+  /** Compared fields that differ; only set for changed items. */
+  changedFields: (keyof ScanResult)[];
+}
+
+export type ScanDiffCounts = Record<ScanDiffKind, number>;
+
+/**
+ * Keys each included result, numbering repeats so two identical findings in one
+ * scan pair up with two in the other instead of collapsing into one.
+ */
+function keyResults(spec: ScanDiffSpec, results: ScanResult[]): Map<string, ScanResult> {
+  const keyed = new Map<string, ScanResult>();
+  const seen = new Map<string, number>();
+  results.filter((result) => spec.include?.(result) ?? true).forEach((result) => {
+    const base = spec.key(result);
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    keyed.set(occurrence === 0 ? base : `${base}#${occurrence}`, result);
+  });
+  return keyed;
+}
+
+/**
+ * Compares an older scan with a newer one of the same type. Rows follow the
+ * newer scan's order, with items that disappeared listed last.
+ */
+export function diffScanResults(spec: ScanDiffSpec, before: ScanResult[], after: ScanResult[]): ScanDiffRow[] {
+  const older = keyResults(spec, before);
+  const newer = keyResults(spec, after);
+  const rows: ScanDiffRow[] = [];
+
+  newer.forEach((result, key) => {
+    const previous = older.get(key);
+    if (!previous) {
+      rows.push({ key, kind: "added", after: result, changedFields: [] });
+      return;
+    }
+    const changedFields = spec.compare.filter((field) => (previous[field] ?? "") !== (result[field] ?? ""));
+    rows.push({ key, kind: changedFields.length > 0 ? "changed" : "unchanged", before: previous, after: result, changedFields });
+  });
+  older.forEach((result, key) => {
+    if (!newer.has(key)) rows.push({ key, kind: "removed", before: result, changedFields: [] });
+  });
+  return rows;
+}
+
+export function countDiff(rows: ScanDiffRow[]): ScanDiffCounts {
+  const counts: ScanDiffCounts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  rows.forEach((row) => {
+    counts[row.kind] += 1;
+  });
+  return counts;
+}
+
+/** "severity: medium -> high" for each changed field. */
+export function describeChanges(row: ScanDiffRow): string {
+  return row.changedFields
+    .map((field) => `${field}: ${row.before?.[field] || "none"} -> ${row.after?.[field] || "none"}`)
+    .join(", ");
+}
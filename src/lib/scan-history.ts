@@ -0,0 +1,174 @@
+import type { ScanInfo } from "@/lib/pdf-report";
+import type { ScanAuthorization, ScanJobStatus, ScanResult } from "@/lib/scan-client";
+import { createId } from "@/lib/utils";
+
+const DB_NAME = "securescan";
+const DB_VERSION = 1;
+const SCANS_STORE = "scans";
+// Results live in their own store so listing the history never loads them.
+const RESULTS_STORE = "scan-results";
+
+/** One finished scan as listed on the history page. */
+export interface ScanRecordSummary {
+  id: string;
+  type: string;
+  target: string;
+  options?: Record<string, unknown>;
+  profileName?: string;
+  /** ISO timestamps. */
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: ScanJobStatus;
+  demo: boolean;
+  authorization?: ScanAuthorization;
+  importedFrom?: string;
+  resultCount: number;
+}
+
+export interface ScanRecord extends ScanRecordSummary {
+  results: ScanResult[];
+}
+
+export class ScanHistoryError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "ScanHistoryError";
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new ScanHistoryError("This browser does not support IndexedDB"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const scans = db.createObjectStore(SCANS_STORE, { keyPath: "id" });
+        scans.createIndex("startedAt", "startedAt");
+        scans.createIndex("target", "target");
+        db.createObjectStore(RESULTS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new ScanHistoryError("Could not open scan history", { cause: request.error }));
+    });
+    // Let a later call retry instead of caching the failure.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new ScanHistoryError("Scan history request failed", { cause: request.error }));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(new ScanHistoryError("Scan history update failed", { cause: transaction.error }));
+    transaction.onabort = () => reject(new ScanHistoryError("Scan history update was aborted", { cause: transaction.error }));
+  });
+}
+
+/** Builds a record from the info the results view already keeps about a scan. */
+export function createScanRecord(info: ScanInfo, results: ScanResult[], startedAt: Date): ScanRecord {
+  return {
+    id: createId(),
+    type: info.type,
+    target: info.target,
+    options: info.options,
+    profileName: info.profileName,
+    startedAt: startedAt.toISOString(),
+    finishedAt: info.timestamp.toISOString(),
+    durationMs: info.timestamp.getTime() - startedAt.getTime(),
+    status: info.status,
+    demo: info.demo,
+    authorization: info.authorization,
+    importedFrom: info.importedFrom,
+    resultCount: results.length,
+    results,
+  };
+}
+
+export function scanInfoFromRecord(record: ScanRecordSummary): ScanInfo {
+  return {
+    type: record.type,
+    target: record.target,
+    timestamp: new Date(record.finishedAt),
+    status: record.status,
+    demo: record.demo,
+    options: record.options,
+    profileName: record.profileName,
+    authorization: record.authorization,
+    importedFrom: record.importedFrom,
+  };
+}
+
+export async function saveScanRecord({ results, ...summary }: ScanRecord): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([SCANS_STORE, RESULTS_STORE], "readwrite");
+  transaction.objectStore(SCANS_STORE).put(summary);
+  transaction.objectStore(RESULTS_STORE).put(results, summary.id);
+  await transactionDone(transaction);
+}
+
+/** All scans, newest first, without their results. */
+export async function listScanRecords(): Promise<ScanRecordSummary[]> {
+  const db = await openDb();
+  const summaries = await requestResult<ScanRecordSummary[]>(
+    db.transaction(SCANS_STORE).objectStore(SCANS_STORE).index("startedAt").getAll()
+  );
+  return summaries.reverse();
+}
+
+export async function getScanRecord(id: string): Promise<ScanRecord | null> {
+  const db = await openDb();
+  const transaction = db.transaction([SCANS_STORE, RESULTS_STORE]);
+  const [summary, results] = await Promise.all([
+    requestResult<ScanRecordSummary | undefined>(transaction.objectStore(SCANS_STORE).get(id)),
+    requestResult<ScanResult[] | undefined>(transaction.objectStore(RESULTS_STORE).get(id)),
+  ]);
+  return summary ? { ...summary, results: results ?? [] } : null;
+}
+
+export async function deleteScanRecord(id: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([SCANS_STORE, RESULTS_STORE], "readwrite");
+  transaction.objectStore(SCANS_STORE).delete(id);
+  transaction.objectStore(RESULTS_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function clearScanHistory(): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([SCANS_STORE, RESULTS_STORE], "readwrite");
+  transaction.objectStore(SCANS_STORE).clear();
+  transaction.objectStore(RESULTS_STORE).clear();
+  await transactionDone(transaction);
+}
+
+/**
+ * Saves a scan without blocking the caller. History is a convenience, so a
+ * browser without IndexedDB (or a full quota) only loses the record.
+ */
+export function recordScan(info: ScanInfo, results: ScanResult[], startedAt: Date) {
+  // Built inside the chain so nothing, not even building the record, can throw at the caller.
+  Promise.resolve()
+    .then(() => saveScanRecord(createScanRecord(info, results, startedAt)))
+    .catch((error) => {
+      console.warn("Could not save scan to history:", error);
+    });
+}
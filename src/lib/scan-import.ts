@@ -0,0 +1,103 @@
+import type { ImportedScan, ScanImporter, ScannerDefinition } from "@/scanners/types";
+
+// Enough to see a root element or the first record of any supported format.
+const HEAD_BYTES = 4096;
+
+export class ScanImportError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "ScanImportError";
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/** A scanner paired with one of its importers. */
+export interface ImportFormat {
+  scanner: ScannerDefinition;
+  importer: ScanImporter;
+}
+
+export function listImportFormats(scanners: ScannerDefinition[]): ImportFormat[] {
+  return scanners.flatMap((scanner) => (scanner.importers ?? []).map((importer) => ({ scanner, importer })));
+}
+
+export async function readFileHead(file: File): Promise<string> {
+  return file.slice(0, HEAD_BYTES).text();
+}
+
+/**
+ * Picks the format for a file from its contents, falling back to the extension
+ * when no importer recognises the start of the file.
+ */
+export async function detectImportFormat(file: File, formats: ImportFormat[]): Promise<ImportFormat | undefined> {
+  const head = (await readFileHead(file)).replace(/^\uFEFF/, "");
+  const byContent = formats.find(({ importer }) => importer.detect(head));
+  if (byContent) return byContent;
+  const name = file.name.toLowerCase();
+  const byExtension = formats.filter(({ importer }) => importer.extensions.some((extension) => name.endsWith(extension)));
+  return byExtension.length === 1 ? byExtension[0] : undefined;
+}
+
+export async function importScanFile(
+  file: File,
+  { importer }: ImportFormat,
+  onProgress?: (fraction: number) => void
+): Promise<ImportedScan[]> {
+  let scans: ImportedScan[];
+  try {
+    scans = await importer.parse(file, onProgress);
+  } catch (error) {
+    if (error instanceof ScanImportError) throw error;
+    throw new ScanImportError(`Could not read ${file.name} as ${importer.label}`, { cause: error });
+  }
+  if (scans.length === 0) {
+    throw new ScanImportError(`${file.name} does not contain any hosts`);
+  }
+  return scans;
+}
+
+/**
+ * Calls `onLine` for every line of a file without loading it whole, yielding
+ * to the event loop between chunks so large files do not freeze the page.
+ */
+export async function forEachLine(
+  file: File,
+  onLine: (line: string, lineNumber: number) => void,
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  let lineNumber = 0;
+  let bytesRead = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    pending += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const lines = pending.split(/\r?\n/);
+    // The last piece may be cut off mid-line; keep it for the next chunk.
+    pending = done ? "" : lines.pop() ?? "";
+    lines.forEach((line) => onLine(lineNumber === 0 ? line.replace(/^\uFEFF/, "") : line, ++lineNumber));
+    if (done) break;
+    bytesRead += value.byteLength;
+    onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+/** Parses XML text, turning parser errors into a ScanImportError. */
+export function parseXml(text: string, label: string): Document {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  const parserError = document.getElementsByTagName("parsererror")[0];
+  if (parserError) {
+    throw new ScanImportError(`This is not valid ${label}: ${parserError.textContent?.trim().split("\n")[0] ?? "parse error"}`);
+  }
+  return document;
+}
+
+/** Reads a Unix timestamp attribute (seconds) as a Date. */
+export function epochAttribute(element: Element | null | undefined, name: string): Date | undefined {
+  const value = Number(element?.getAttribute(name));
+  return value > 0 ? new Date(value * 1000) : undefined;
+}
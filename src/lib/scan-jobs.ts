@@ -0,0 +1,124 @@
+import {
+  ScanAbortedError,
+  ScanClientError,
+  ScanHttpError,
+  delay,
+  describeScanError,
+  isTransientError,
+  TERMINAL_JOB_STATUSES,
+  type ScanClient,
+  type ScanJob,
+  type ScanRequest,
+  type ScanResult,
+} from "@/lib/scan-client";
+import type { StreamTransport } from "@/lib/config";
+import { ScanStreamError, streamScanJob } from "@/lib/scan-stream";
+
+export interface ScanJobUpdate {
+  job: ScanJob;
+  /** Results received in this update only. */
+  newResults: ScanResult[];
+  /** Every result received so far, in backend order. */
+  results: ScanResult[];
+}
+
+export interface RunScanJobOptions {
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+  /** Defaults to polling; streaming transports fall back to polling if the stream fails. */
+  transport?: StreamTransport;
+  onUpdate?: (update: ScanJobUpdate) => void;
+}
+
+export interface ScanJobOutcome {
+  job: ScanJob;
+  results: ScanResult[];
+}
+
+/** Job id reported when the scan ran through the synchronous `/scan` endpoint. */
+export const SYNC_JOB_ID = "sync";
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/** The synchronous `/scan` endpoint only answers once the whole scan has finished. */
+const SYNC_SCAN_TIMEOUT_MS = 60 * 60 * 1000;
+
+/** Consecutive failed polls tolerated before the job is reported as lost. */
+const MAX_POLL_FAILURES = 3;
+
+/** Stop was pressed, but the backend did not confirm it cancelled the job. */
+export class ScanCancelError extends ScanClientError {
+  readonly jobId: string;
+
+  constructor(jobId: string, cause: unknown) {
+    super(`The backend did not confirm it stopped the scan, which may still be running: ${describeScanError(cause)}`, { cause });
+    this.name = "ScanCancelError";
+    this.jobId = jobId;
+  }
+}
+
+// Backends that predate the job API answer POST /scans with 404 or 405.
+const isJobApiMissing = (error: unknown) =>
+  error instanceof ScanHttpError && (error.status === 404 || error.status === 405);
+
+/**
+ * Runs a scan as a backend job: creates it, then follows it over the chosen
+ * transport until it reaches a terminal status, reporting progress and newly
+ * streamed results on the way. Falls back to the synchronous `/scan` endpoint
+ * when the job API is missing.
+ */
+export async function runScanJob(client: ScanClient, request: ScanRequest, options: RunScanJobOptions = {}): Promise<ScanJobOutcome> {
+  const { signal, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS, transport = "poll", onUpdate } = options;
+  const results: ScanResult[] = [];
+
+  const apply = (job: ScanJob) => {
+    // Only keep results we have not seen, in case the backend resends an overlapping window.
+    const newResults = job.result.slice(Math.max(0, results.length - job.offset));
+    results.push(...newResults);
+    onUpdate?.({ job, newResults, results });
+  };
+
+  let job: ScanJob;
+  try {
+    // Not aborted with the scan: a job created after Stop is reported below so it can be cancelled.
+    job = await client.createJob(request);
+  } catch (error) {
+    if (!isJobApiMissing(error)) throw error;
+    const response = await client.scan(request, { signal, timeoutMs: SYNC_SCAN_TIMEOUT_MS });
+    job = {
+      id: SYNC_JOB_ID,
+      status: "completed",
+      progress: 100,
+      result: response.result,
+      offset: 0,
+    };
+    apply(job);
+    return { job, results };
+  }
+
+  apply(job);
+  if (signal?.aborted) throw new ScanAbortedError();
+  if (transport !== "poll" && !TERMINAL_JOB_STATUSES.includes(job.status)) {
+    try {
+      job = await streamScanJob(client, job, { transport, offset: results.length, signal, onJob: apply });
+    } catch (error) {
+      // Polling below resumes from the last result the stream delivered.
+      if (!(error instanceof ScanStreamError)) throw error;
+    }
+  }
+
+  let failures = 0;
+  while (!TERMINAL_JOB_STATUSES.includes(job.status)) {
+    await delay(pollIntervalMs, signal);
+    try {
+      job = await client.getJob(job.id, results.length, { signal });
+      failures = 0;
+    } catch (error) {
+      if (!isTransientError(error) || ++failures >= MAX_POLL_FAILURES) throw error;
+      continue;
+    }
+    apply(job);
+  }
+
+  return { job, results };
+}
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { confidenceSchema, findingSeveritySchema, type ScanResult } from "@/lib/scan-client";
+import type { ScannerDefinition } from "@/scanners/types";
+
+/*
+ * The typed model behind reports and cross-scanner views. `ScanResult` stays
+ * the flat wire format the backend, history and importers share; each scanner
+ * maps its results onto these entities, which are validated here.
+ */
+
+export const entitySeveritySchema = findingSeveritySchema;
+
+export type EntitySeverity = z.infer<typeof entitySeveritySchema>;
+
+const scriptOutputSchema = z.object({ id: z.string(), output: z.string() });
+
+export const hostEntitySchema = z.object({
+  kind: z.literal("host"),
+  scanner: z.string(),
+  address: z.string().min(1),
+  hostnames: z.array(z.string()).default([]),
+  /** "up" or "down", as the scanner saw it. */
+  state: z.string().optional(),
+  reason: z.string().optional(),
+  osMatches: z.array(z.object({ name: z.string(), accuracy: z.number().min(0).max(100).optional() })).default([]),
+  scripts: z.array(scriptOutputSchema).default([]),
+});
+
+export const serviceEntitySchema = z.object({
+  kind: z.literal("service"),
+  scanner: z.string(),
+  host: z.string().optional(),
+  port: z.number().int().min(0).max(65535),
+  protocol: z.enum(["tcp", "udp", "sctp"]),
+  /** Nmap port state, e.g. "open" or "filtered". */
+  state: z.string(),
+  reason: z.string().optional(),
+  name: z.string().optional(),
+  product: z.string().optional(),
+  version: z.string().optional(),
+  /** Platform identifiers such as "cpe:/a:openbsd:openssh:8.9p1". */
+  cpe: z.array(z.string()).default([]),
+  scripts: z.array(scriptOutputSchema).default([]),
+});
+
+export const findingEntitySchema = z.object({
+  kind: z.literal("finding"),
+  scanner: z.string(),
+  /** The scanner's identifier for the check, e.g. a Nuclei template ID or Nikto test ID. */
+  ruleId: z.string().optional(),
+  title: z.string().min(1),
+  severity: entitySeveritySchema,
+  confidence: confidenceSchema.optional(),
+  host: z.string().optional(),
+  /** Full URL when known, otherwise the path. */
+  location: z.string().optional(),
+  method: z.string().optional(),
+  description: z.string().optional(),
+  evidence: z
+    .object({
+      matcher: z.string().optional(),
+      extracted: z.array(z.string()).default([]),
+      request: z.string().optional(),
+      response: z.string().optional(),
+      curlCommand: z.string().optional(),
+    })
+    .default({}),
+  classification: z
+    .object({
+      cve: z.array(z.string()).default([]),
+      cwe: z.array(z.string()).default([]),
+      cvssScore: z.number().min(0).max(10).optional(),
+      cvssMetrics: z.string().optional(),
+    })
+    .default({}),
+  remediation: z.string().optional(),
+  references: z.array(z.string()).default([]),
+});
+
+export const scanEntitySchema = z.discriminatedUnion("kind", [hostEntitySchema, serviceEntitySchema, findingEntitySchema]);
+
+export type HostEntity = z.infer<typeof hostEntitySchema>;
+export type ServiceEntity = z.infer<typeof serviceEntitySchema>;
+export type FindingEntity = z.infer<typeof findingEntitySchema>;
+export type ScanEntity = z.infer<typeof scanEntitySchema>;
+/** What a scanner's `toEntity` returns; defaults are filled in by validation. */
+export type ScanEntityInput = z.input<typeof scanEntitySchema>;
+
+/** The validated entity for one result, or undefined when the result does not fit the model. */
+export function toScanEntity(scanner: ScannerDefinition, result: ScanResult): ScanEntity | undefined {
+  const parsed = scanEntitySchema.safeParse(scanner.toEntity(result));
+  return parsed.success ? parsed.data : undefined;
+}
+
+/** The finding a result describes, or undefined for hosts, services and invalid results. */
+export function toFindingEntity(scanner: ScannerDefinition, result: ScanResult): FindingEntity | undefined {
+  const entity = toScanEntity(scanner, result);
+  return entity?.kind === "finding" ? entity : undefined;
+}
+
+export interface NormalizedResults {
+  entities: ScanEntity[];
+  /** Results left out because they could not be read as entities. */
+  skipped: number;
+}
+
+export function normalizeResults(scanner: ScannerDefinition, results: ScanResult[]): NormalizedResults {
+  const entities = results.map((result) => toScanEntity(scanner, result)).filter((entity): entity is ScanEntity => entity !== undefined);
+  return { entities, skipped: results.length - entities.length };
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ScanClient, ScanJob } from "@/lib/scan-client";
+import { ScanStreamError, streamScanJob } from "@/lib/scan-stream";
+
+const job: ScanJob = { id: "job-1", status: "running", progress: 0, result: [], offset: 0 };
+
+// An EventSource whose nth connection sends the nth list of messages, then fails like a dropped connection.
+const stubEventSource = (...connections: unknown[][]) => {
+  const opened = vi.fn();
+  vi.stubGlobal(
+    "EventSource",
+    class {
+      onmessage: ((event: { data: string }) => void) | null = null;
+      onerror: (() => void) | null = null;
+
+      constructor(url: string) {
+        const messages = connections[opened.mock.calls.length] ?? [];
+        opened(url);
+        setTimeout(() => {
+          for (const message of messages) this.onmessage?.({ data: JSON.stringify(message) });
+          this.onerror?.();
+        });
+      }
+
+      close() {}
+    }
+  );
+  return opened;
+};
+
+const clientWith = (streamStatus: ScanClient["streamStatus"]) =>
+  ({ streamUrl: (_id: string, offset: number) => `stream?offset=${offset}`, streamStatus }) as unknown as ScanClient;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("streamScanJob", () => {
+  it("reports each event as a job snapshot until the job finishes", async () => {
+    stubEventSource([
+      { type: "result", index: 0, result: { port: "22" } },
+      { type: "status", status: "completed", progress: 100 },
+    ]);
+    const onJob = vi.fn();
+
+    const finished = await streamScanJob(clientWith(vi.fn()), job, { transport: "sse", offset: 0, onJob });
+
+    expect(finished).toMatchObject({ status: "completed", progress: 100 });
+    expect(onJob.mock.calls.map(([snapshot]) => snapshot.result)).toEqual([[{ port: "22" }], []]);
+  });
+
+  it.each([404, 405, 501])("gives up without reconnecting when the stream endpoint answers %i", async (status) => {
+    const opened = stubEventSource();
+    const streamStatus = vi.fn(async () => status);
+
+    const error = await streamScanJob(clientWith(streamStatus), job, { transport: "sse", offset: 0, onJob: vi.fn() }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ScanStreamError);
+    expect(error.connected).toBe(false);
+    expect(opened).toHaveBeenCalledTimes(1);
+  });
+
+  it("reconnects from the last result when the stream drops", async () => {
+    vi.useFakeTimers();
+    const opened = stubEventSource([{ type: "result", index: 0, result: { port: "22" } }]);
+    const streamStatus = vi.fn(async () => 200);
+
+    const pending = streamScanJob(clientWith(streamStatus), job, { transport: "sse", offset: 0, maxReconnects: 1, onJob: vi.fn() }).catch((caught) => caught);
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+
+    expect(await pending).toBeInstanceOf(ScanStreamError);
+    expect(opened.mock.calls.map(([url]) => url)).toEqual(["stream?offset=0", "stream?offset=1"]);
+    expect(streamStatus).not.toHaveBeenCalled();
+  });
+});
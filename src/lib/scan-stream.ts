@@ -0,0 +1,176 @@
+import { z } from "zod";
+import {
+  ScanAbortedError,
+  ScanClientError,
+  TERMINAL_JOB_STATUSES,
+  delay,
+  scanJobStatusSchema,
+  scanResultSchema,
+  type ScanClient,
+  type ScanJob,
+} from "@/lib/scan-client";
+
+export const scanStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("result"),
+    /** Position of this result in the job's full result list. */
+    index: z.number().int().nonnegative(),
+    result: scanResultSchema,
+  }),
+  z.object({
+    type: z.literal("status"),
+    status: scanJobStatusSchema,
+    progress: z.number().min(0).max(100).optional(),
+    phase: z.string().optional(),
+    error: z.string().optional(),
+  }),
+]);
+
+export type ScanStreamEvent = z.infer<typeof scanStreamEventSchema>;
+
+/** The stream dropped, or never opened, more often than we are willing to retry. */
+export class ScanStreamError extends ScanClientError {
+  /** Whether any event was received before giving up. */
+  readonly connected: boolean;
+
+  constructor(message: string, connected: boolean) {
+    super(message);
+    this.name = "ScanStreamError";
+    this.connected = connected;
+  }
+}
+
+export interface StreamScanJobOptions {
+  transport: "sse" | "websocket";
+  /** Number of results already received; the stream resumes after them. */
+  offset: number;
+  signal?: AbortSignal;
+  maxReconnects?: number;
+  /** Called with a job snapshot for every event, shaped like a poll response. */
+  onJob: (job: ScanJob) => void;
+}
+
+const DEFAULT_MAX_RECONNECTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+// Statuses meaning the backend has no stream endpoint, so reconnecting is pointless.
+const STREAM_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+interface Connection {
+  close: () => void;
+}
+
+interface ConnectionHandlers {
+  onMessage: (data: string) => void;
+  onClose: () => void;
+}
+
+const openEventSource = (url: string, handlers: ConnectionHandlers): Connection => {
+  const source = new EventSource(url);
+  source.onmessage = (event) => handlers.onMessage(event.data);
+  // EventSource reconnects on its own, but it would resume from its own
+  // Last-Event-ID bookkeeping; we reconnect ourselves to control the offset.
+  source.onerror = () => {
+    source.close();
+    handlers.onClose();
+  };
+  return { close: () => source.close() };
+};
+
+const openWebSocket = (url: string, handlers: ConnectionHandlers): Connection => {
+  const socket = new WebSocket(url);
+  socket.onmessage = (event) => handlers.onMessage(typeof event.data === "string" ? event.data : "");
+  socket.onclose = () => handlers.onClose();
+  return {
+    close: () => {
+      socket.onclose = null;
+      socket.close();
+    },
+  };
+};
+
+/**
+ * Follows a scan job over SSE or WebSocket until it reaches a terminal status.
+ * Dropped connections are reopened with exponential backoff, resuming from the
+ * last result received so nothing is duplicated or lost. If the first
+ * connection fails because the backend has no stream endpoint, it gives up
+ * straight away instead of reconnecting.
+ */
+export async function streamScanJob(client: ScanClient, initialJob: ScanJob, options: StreamScanJobOptions): Promise<ScanJob> {
+  const { transport, signal, maxReconnects = DEFAULT_MAX_RECONNECTS, onJob } = options;
+  let offset = options.offset;
+  let job: ScanJob = { ...initialJob, result: [], offset };
+  let connected = false;
+  let failures = 0;
+  const name = transport === "sse" ? "event stream" : "WebSocket";
+
+  const connectOnce = () =>
+    new Promise<"finished" | "dropped">((resolve, reject) => {
+      const url = client.streamUrl(job.id, offset, transport);
+      const open = transport === "sse" ? openEventSource : openWebSocket;
+      let settled = false;
+
+      const settle = (outcome: "finished" | "dropped" | Error) => {
+        if (settled) return;
+        settled = true;
+        connection.close();
+        signal?.removeEventListener("abort", onAbort);
+        if (outcome instanceof Error) reject(outcome);
+        else resolve(outcome);
+      };
+      const onAbort = () => settle(new ScanAbortedError());
+
+      const connection = open(url, {
+        onMessage: (data) => {
+          let parsed: ReturnType<typeof scanStreamEventSchema.safeParse>;
+          try {
+            parsed = scanStreamEventSchema.safeParse(JSON.parse(data));
+          } catch {
+            return;
+          }
+          if (!parsed.success) return;
+
+          connected = true;
+          failures = 0;
+          const event = parsed.data;
+          if (event.type === "result") {
+            // Replayed results after a reconnect are already in the list.
+            if (event.index < offset) return;
+            offset = event.index + 1;
+            job = { ...job, result: [event.result], offset: event.index };
+          } else {
+            job = { ...job, status: event.status, progress: event.progress, phase: event.phase, error: event.error, result: [], offset };
+          }
+          onJob(job);
+          if (TERMINAL_JOB_STATUSES.includes(job.status)) settle("finished");
+        },
+        onClose: () => settle("dropped"),
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+  while (!TERMINAL_JOB_STATUSES.includes(job.status)) {
+    if (signal?.aborted) throw new ScanAbortedError();
+    const outcome = await connectOnce();
+    if (outcome === "finished") break;
+
+    if (!connected && failures === 0) {
+      const status = await client.streamStatus(job.id, transport, { signal }).catch((error) => {
+        if (error instanceof ScanAbortedError) throw error;
+        return undefined;
+      });
+      if (STREAM_UNSUPPORTED_STATUSES.includes(status)) {
+        throw new ScanStreamError(`The backend does not offer a ${name} (HTTP ${status})`, false);
+      }
+    }
+
+    failures++;
+    if (failures > maxReconnects) {
+      throw new ScanStreamError(`Lost the ${name} after ${maxReconnects} reconnect attempts`, connected);
+    }
+    await delay(Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (failures - 1), RECONNECT_MAX_DELAY_MS), signal);
+  }
+
+  return job;
+}
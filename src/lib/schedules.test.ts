@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { cronExpressionError, describeRecurrence, describeWindow } from "@/lib/schedules";
+
+describe("cronExpressionError", () => {
+  it.each(["0 2 * * *", "*/15 * * * 1-5", "0,30 8-18 1 1,6,12 0", "5 4 * * 7", " @daily ", "@annually"])("accepts %s", (expression) => {
+    expect(cronExpressionError(expression)).toBeUndefined();
+  });
+
+  it.each([
+    ["0 2 * *", "Use five fields: minute hour day-of-month month day-of-week"],
+    ["0 2 * * * *", "Use five fields: minute hour day-of-month month day-of-week"],
+    ["60 * * * *", "The minute must be between 0 and 59"],
+    ["0 24 * * *", "The hour must be between 0 and 23"],
+    ["0 0 0 * *", "The day of month must be between 1 and 31"],
+    ["0 0 * 13 *", "The month must be between 1 and 12"],
+    ["0 0 * * 8", "The day of week must be between 0 and 7"],
+    ["0 18-8 * * *", 'Invalid hour range "18-8"'],
+    ["*/0 * * * *", "The minute step must be at least 1"],
+    ["0 0 * JAN *", 'Invalid month "JAN"'],
+    ["@reboot", "Use five fields: minute hour day-of-month month day-of-week"],
+  ])("rejects %s", (expression, error) => {
+    expect(cronExpressionError(expression)).toBe(error);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("names intervals in the largest whole unit", () => {
+    expect(describeRecurrence({ kind: "interval", everyMinutes: 1440 })).toBe("Every day");
+    expect(describeRecurrence({ kind: "interval", everyMinutes: 2880 })).toBe("Every 2 days");
+    expect(describeRecurrence({ kind: "interval", everyMinutes: 60 })).toBe("Every hour");
+    expect(describeRecurrence({ kind: "interval", everyMinutes: 90 })).toBe("Every 90 minutes");
+    expect(describeRecurrence({ kind: "cron", expression: "0 2 * * *" })).toBe("Cron 0 2 * * *");
+  });
+});
+
+describe("describeWindow", () => {
+  it("marks windows that run past midnight", () => {
+    expect(describeWindow(undefined, "UTC")).toBe("Any time");
+    expect(describeWindow({ start: "09:00", end: "17:00" }, "UTC")).toBe("09:00–17:00 UTC");
+    expect(describeWindow({ start: "22:00", end: "06:00" }, "Europe/Berlin")).toBe("22:00–06:00 (overnight) Europe/Berlin");
+  });
+});
@@ -0,0 +1,61 @@
+import type { ScheduleRecurrence, ScheduleWindow } from "@/lib/scan-client";
+
+/** Shortest interval the form accepts, so a schedule cannot hammer a target. */
+export const MIN_INTERVAL_MINUTES = 15;
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 0 and 7 are both Sunday.
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const CRON_MACROS = ["@hourly", "@daily", "@weekly", "@monthly", "@yearly", "@annually"];
+
+function cronFieldError(value: string, field: (typeof CRON_FIELDS)[number]): string | undefined {
+  for (const part of value.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return `Invalid ${field.name} "${part}"`;
+    const [, , start, end, step] = match;
+    const bounds = [start, end].filter((bound) => bound !== undefined).map(Number);
+    if (bounds.some((bound) => bound < field.min || bound > field.max)) {
+      return `The ${field.name} must be between ${field.min} and ${field.max}`;
+    }
+    if (bounds.length === 2 && bounds[0] > bounds[1]) return `Invalid ${field.name} range "${part}"`;
+    if (step !== undefined && Number(step) === 0) return `The ${field.name} step must be at least 1`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks a standard five-field cron expression (minute hour day month weekday,
+ * numbers only) or one of the @daily style macros. The backend does the scheduling.
+ */
+export function cronExpressionError(expression: string): string | undefined {
+  const trimmed = expression.trim();
+  if (CRON_MACROS.includes(trimmed)) return undefined;
+  const fields = trimmed.split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    return "Use five fields: minute hour day-of-month month day-of-week";
+  }
+  for (let index = 0; index < fields.length; index++) {
+    const error = cronFieldError(fields[index], CRON_FIELDS[index]);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+export function describeRecurrence(recurrence: ScheduleRecurrence): string {
+  if (recurrence.kind === "cron") return `Cron ${recurrence.expression}`;
+  const minutes = recurrence.everyMinutes;
+  if (minutes % 1440 === 0) return minutes === 1440 ? "Every day" : `Every ${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? "Every hour" : `Every ${minutes / 60} hours`;
+  return `Every ${minutes} minutes`;
+}
+
+export function describeWindow(window: ScheduleWindow | undefined, timezone: string): string {
+  if (!window) return "Any time";
+  return `${window.start}–${window.end}${window.end < window.start ? " (overnight)" : ""} ${timezone}`;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { compileRules, compileScope, parseScopeRule, rulesOverlap, scopeViolation, validateScope } from "@/lib/scope";
+
+const scope = (allowed: string[], excluded: string[] = []) => compileScope({ engagementRef: "PT-1", allowed, excluded });
+
+describe("parseScopeRule", () => {
+  it("compiles hosts, wildcards, addresses and IPv4 ranges", () => {
+    expect(parseScopeRule("Example.COM.").rule).toEqual({ kind: "domain", domain: "example.com" });
+    expect(parseScopeRule("*.example.com").rule).toEqual({ kind: "wildcard", domain: "example.com" });
+    expect(parseScopeRule("10.0.0.7/24").rule).toEqual({ kind: "ipv4", first: 167772160, last: 167772415 });
+    expect(parseScopeRule("2001:DB8:0::1").rule).toEqual({ kind: "ipv6", address: "2001:db8::1" });
+  });
+
+  it("rejects URLs, ports, IPv6 ranges and bad wildcards", () => {
+    expect(parseScopeRule("https://example.com").error).toContain("drop the scheme");
+    expect(parseScopeRule("example.com:443").error).toContain("drop the scheme");
+    expect(parseScopeRule("2001:db8::/64").error).toContain("IPv6 ranges are not supported");
+    expect(parseScopeRule("*.10.0.0.1").error).toContain("not a valid wildcard");
+  });
+
+  it("validates every entry of a scope", () => {
+    expect(validateScope({ engagementRef: "", allowed: ["example.com", "bad host"], excluded: ["https://x.test"] })).toHaveLength(2);
+  });
+});
+
+describe("scopeViolation", () => {
+  it("blocks everything while no scope is defined", () => {
+    expect(scopeViolation("example.com", scope([]))).toContain("No scope is defined");
+  });
+
+  it("matches hostnames by name, including URLs on them", () => {
+    const compiled = scope(["example.com"]);
+
+    expect(scopeViolation("EXAMPLE.com", compiled)).toBeNull();
+    expect(scopeViolation("https://example.com:8443/login", compiled)).toBeNull();
+    expect(scopeViolation("www.example.com", compiled)).toBe("www.example.com is out of scope");
+  });
+
+  it("lets wildcards cover subdomains but not the domain itself", () => {
+    const compiled = scope(["*.example.com"]);
+
+    expect(scopeViolation("api.eu.example.com", compiled)).toBeNull();
+    expect(scopeViolation("example.com", compiled)).toBe("example.com is out of scope");
+    expect(scopeViolation("badexample.com", compiled)).toBe("badexample.com is out of scope");
+  });
+
+  it("requires an allowed range to cover the whole target range", () => {
+    const compiled = scope(["10.0.0.0/24"]);
+
+    expect(scopeViolation("10.0.0.200", compiled)).toBeNull();
+    expect(scopeViolation("10.0.0.128/25", compiled)).toBeNull();
+    expect(scopeViolation("10.0.0.0/23", compiled)).toBe("10.0.0.0/23 is out of scope");
+  });
+
+  it("does not let IP entries cover hostnames", () => {
+    expect(scopeViolation("example.com", scope(["93.184.216.34"]))).toBe("example.com is out of scope");
+  });
+
+  it("excludes a target when any part of it is excluded", () => {
+    const compiled = scope(["10.0.0.0/24", "*.example.com"], ["10.0.0.5", "admin.example.com"]);
+
+    expect(scopeViolation("10.0.0.0/29", compiled)).toBe("10.0.0.0/29 is excluded from scope");
+    expect(scopeViolation("10.0.0.8/29", compiled)).toBeNull();
+    expect(scopeViolation("https://admin.example.com/", compiled)).toBe("https://admin.example.com/ is excluded from scope");
+  });
+
+  it("matches IPv6 addresses in any spelling", () => {
+    expect(scopeViolation("[2001:db8:0:0::1]:443", scope(["2001:db8::1"]))).toBeNull();
+  });
+});
+
+describe("rulesOverlap", () => {
+  it("is true when any rule touches the target", () => {
+    const rules = compileRules(["10.0.0.0/30"]);
+
+    expect(rulesOverlap("10.0.0.0/24", rules)).toBe(true);
+    expect(rulesOverlap("10.0.1.0/24", rules)).toBe(false);
+  });
+});
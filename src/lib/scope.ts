@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { scanAuthorizationSchema } from "@/lib/scan-client";
+import { canonicalIpv6, parseIpv4, parseTarget } from "@/lib/targets";
+
+export const scopeSchema = z.object({
+  /** Contract, ticket or rules-of-engagement reference that authorizes the scope. */
+  engagementRef: z.string().trim().max(200).default(""),
+  /** Hosts, `*.` wildcards, IPv4/IPv6 addresses and IPv4 CIDR ranges that may be scanned. */
+  allowed: z.array(z.string()).default([]),
+  /** Entries that must never be scanned, even when an allowed entry covers them. */
+  excluded: z.array(z.string()).default([]),
+  /** Set once the user confirms they are authorized; dropped whenever the scope changes. */
+  acknowledgement: scanAuthorizationSchema.optional(),
+});
+
+export type Scope = z.infer<typeof scopeSchema>;
+
+export const EMPTY_SCOPE: Scope = { engagementRef: "", allowed: [], excluded: [] };
+
+const SCOPE_STORAGE_KEY = "securescan.scope";
+
+export type ScopeRule =
+  | { kind: "domain"; domain: string }
+  | { kind: "wildcard"; domain: string }
+  | { kind: "ipv4"; first: number; last: number }
+  | { kind: "ipv6"; address: string };
+
+/** What a target covers, in the terms scope rules are written in. */
+type TargetSpan =
+  | { kind: "domain"; domain: string }
+  | { kind: "ipv4"; first: number; last: number }
+  | { kind: "ipv6"; address: string };
+
+export interface CompiledScope {
+  allowed: ScopeRule[];
+  excluded: ScopeRule[];
+}
+
+const canonicalDomain = (domain: string) => domain.toLowerCase().replace(/\.$/, "");
+
+export function parseScopeRule(entry: string): { rule?: ScopeRule; error?: string } {
+  const value = entry.trim();
+  if (value.startsWith("*.")) {
+    const { target } = parseTarget(value.slice(2));
+    if (target?.kind !== "hostname") return { error: `${value} is not a valid wildcard; use the form *.example.com` };
+    return { rule: { kind: "wildcard", domain: canonicalDomain(target.host) } };
+  }
+
+  const { target, error } = parseTarget(value);
+  if (error) return { error };
+  if (target.kind === "url" || target.port) {
+    return { error: `${value}: scope entries are hosts, wildcards or ranges; drop the scheme, port and path` };
+  }
+  switch (target.kind) {
+    case "hostname":
+      return { rule: { kind: "domain", domain: canonicalDomain(target.host) } };
+    case "ipv4": {
+      const address = parseIpv4(target.host);
+      return { rule: { kind: "ipv4", first: address, last: address } };
+    }
+    case "ipv6":
+      return { rule: { kind: "ipv6", address: canonicalIpv6(target.host) } };
+    default: {
+      const [base, prefix] = target.host.split("/");
+      const address = parseIpv4(base);
+      if (address === null) return { error: `${value}: IPv6 ranges are not supported; list the addresses instead` };
+      const size = 2 ** (32 - Number(prefix));
+      const first = address - (address % size);
+      return { rule: { kind: "ipv4", first, last: first + size - 1 } };
+    }
+  }
+}
+
+/** Validates every entry of a scope; returns one message per invalid entry. */
+export function validateScope(scope: Scope): string[] {
+  return [...scope.allowed, ...scope.excluded].flatMap((entry) => {
+    const { error } = parseScopeRule(entry);
+    return error ? [error] : [];
+  });
+}
+
+/** Compiles scope-syntax entries, skipping invalid ones (they are rejected when saved). */
+export function compileRules(entries: string[]): ScopeRule[] {
+  return entries.flatMap((entry) => {
+    const { rule } = parseScopeRule(entry);
+    return rule ? [rule] : [];
+  });
+}
+
+export function compileScope(scope: Scope): CompiledScope {
+  return { allowed: compileRules(scope.allowed), excluded: compileRules(scope.excluded) };
+}
+
+function targetSpan(target: string): TargetSpan | null {
+  const { target: parsed } = parseTarget(target);
+  if (!parsed) return null;
+  if (parsed.kind === "cidr") {
+    const [base, prefix] = parsed.host.split("/");
+    const address = parseIpv4(base);
+    if (address === null) return null;
+    const size = 2 ** (32 - Number(prefix));
+    const first = address - (address % size);
+    return { kind: "ipv4", first, last: first + size - 1 };
+  }
+  const address = parseIpv4(parsed.host);
+  if (address !== null) return { kind: "ipv4", first: address, last: address };
+  if (parsed.host.includes(":")) return { kind: "ipv6", address: canonicalIpv6(parsed.host) };
+  return { kind: "domain", domain: canonicalDomain(parsed.host) };
+}
+
+/**
+ * `whole` asks whether the rule covers the entire span (for allow rules);
+ * otherwise any overlap counts (for exclusions).
+ */
+function ruleMatches(rule: ScopeRule, span: TargetSpan, whole: boolean): boolean {
+  switch (rule.kind) {
+    case "domain":
+      return span.kind === "domain" && span.domain === rule.domain;
+    case "wildcard":
+      return span.kind === "domain" && span.domain.endsWith(`.${rule.domain}`);
+    case "ipv6":
+      return span.kind === "ipv6" && span.address === rule.address;
+    case "ipv4":
+      if (span.kind !== "ipv4") return false;
+      return whole
+        ? span.first >= rule.first && span.last <= rule.last
+        : span.first <= rule.last && span.last >= rule.first;
+  }
+}
+
+/** True when any rule covers at least part of the target. */
+export function rulesOverlap(target: string, rules: ScopeRule[]): boolean {
+  const span = targetSpan(target);
+  return span !== null && rules.some((rule) => ruleMatches(rule, span, false));
+}
+
+/**
+ * Explains why a target may not be scanned, or returns null when it is in
+ * scope. Hostnames are matched by name only: IP entries do not cover them,
+ * since the browser cannot resolve DNS.
+ */
+export function scopeViolation(target: string, scope: CompiledScope): string | null {
+  if (scope.allowed.length === 0) return "No scope is defined; add the engagement's targets on the Scope page";
+  const span = targetSpan(target);
+  if (!span) return `${target} cannot be matched against the scope`;
+  if (scope.excluded.some((rule) => ruleMatches(rule, span, false))) return `${target} is excluded from scope`;
+  if (!scope.allowed.some((rule) => ruleMatches(rule, span, true))) return `${target} is out of scope`;
+  return null;
+}
+
+export function loadScope(): Scope {
+  try {
+    const raw = localStorage.getItem(SCOPE_STORAGE_KEY);
+    if (!raw) return EMPTY_SCOPE;
+    const parsed = scopeSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : EMPTY_SCOPE;
+  } catch {
+    return EMPTY_SCOPE;
+  }
+}
+
+export function saveScope(scope: Scope) {
+  localStorage.setItem(SCOPE_STORAGE_KEY, JSON.stringify(scope));
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { MAX_BULK_TARGETS, expandTargets, parseTarget, targetsFromFile } from "@/lib/targets";
+
+describe("expandTargets", () => {
+  it("splits on newlines, commas, semicolons and spaces", () => {
+    expect(expandTargets("example.com, 10.0.0.1;\nhttps://example.org/login 2001:db8::1").targets).toEqual([
+      "example.com",
+      "10.0.0.1",
+      "https://example.org/login",
+      "2001:db8::1",
+    ]);
+  });
+
+  it("expands CIDR blocks without their network and broadcast addresses", () => {
+    expect(expandTargets("192.168.1.0/30").targets).toEqual(["192.168.1.1", "192.168.1.2"]);
+    expect(expandTargets("192.168.1.5/29").targets).toEqual(["192.168.1.1", "192.168.1.2", "192.168.1.3", "192.168.1.4", "192.168.1.5", "192.168.1.6"]);
+  });
+
+  it("keeps every address of /31 and /32 blocks", () => {
+    expect(expandTargets("10.0.0.4/31").targets).toEqual(["10.0.0.4", "10.0.0.5"]);
+    expect(expandTargets("10.0.0.4/32").targets).toEqual(["10.0.0.4"]);
+  });
+
+  it("expands short and full hyphenated ranges", () => {
+    expect(expandTargets("10.0.0.254-255").targets).toEqual(["10.0.0.254", "10.0.0.255"]);
+    expect(expandTargets("10.0.0.255-10.0.1.1").targets).toEqual(["10.0.0.255", "10.0.1.0", "10.0.1.1"]);
+  });
+
+  it("rejects malformed ranges", () => {
+    expect(expandTargets("10.0.0.5-3").errors).toEqual(["10.0.0.5-3 ends before it starts"]);
+    expect(expandTargets("10.0.0.1-256").errors).toEqual(["10.0.0.1-256 is not a valid IP range"]);
+    expect(expandTargets("10.0.0.0/33").errors).toEqual(["10.0.0.0/33 is not a valid CIDR range"]);
+  });
+
+  it("refuses ranges larger than the bulk limit", () => {
+    const expansion = expandTargets("10.0.0.0/21");
+
+    expect(expansion.targets).toEqual([]);
+    expect(expansion.errors).toEqual([`10.0.0.0/21 expands to 2046 hosts; the limit is ${MAX_BULK_TARGETS}`]);
+    expect(expandTargets("10.0.0.0/22").targets).toHaveLength(1022);
+  });
+
+  it("caps the combined list at the bulk limit", () => {
+    const expansion = expandTargets("10.0.0.0/22 10.0.4.0/22");
+
+    expect(expansion.targets).toHaveLength(MAX_BULK_TARGETS);
+    expect(expansion.errors).toEqual([`2044 targets exceed the limit of ${MAX_BULK_TARGETS}`]);
+  });
+
+  it("rejects IPv6 ranges", () => {
+    expect(expandTargets("2001:db8::/120").errors).toEqual(["2001:db8::/120: IPv6 ranges are not supported; list the addresses instead"]);
+  });
+
+  it("drops duplicates case-insensitively and keeps the first spelling", () => {
+    expect(expandTargets("Example.com example.com 10.0.0.1 10.0.0.0-1")).toEqual({
+      targets: ["Example.com", "10.0.0.1", "10.0.0.0"],
+      duplicates: 2,
+      errors: [],
+    });
+  });
+
+  it("reports invalid entries and keeps the valid ones", () => {
+    const expansion = expandTargets("example.com 999.1.1.1 0x7f.1 -bad-");
+
+    expect(expansion.targets).toEqual(["example.com"]);
+    expect(expansion.errors).toHaveLength(3);
+  });
+});
+
+describe("parseTarget", () => {
+  it("classifies hosts, ports, URLs and ranges", () => {
+    expect(parseTarget("example.com:8080").target).toMatchObject({ kind: "hostname", host: "example.com", port: "8080" });
+    expect(parseTarget("[2001:db8::1]:443").target).toMatchObject({ kind: "ipv6", host: "2001:db8::1", port: "443" });
+    expect(parseTarget("https://example.com/app").target).toMatchObject({ kind: "url", host: "example.com" });
+    expect(parseTarget("10.0.0.0/24").target).toMatchObject({ kind: "cidr", host: "10.0.0.0/24" });
+  });
+});
+
+describe("targetsFromFile", () => {
+  it("reads the first CSV column and skips a header row", () => {
+    expect(targetsFromFile("hosts.csv", 'host,owner\n"example.com",web\n10.0.0.1,db\n')).toBe("example.com\n10.0.0.1");
+  });
+
+  it("uses text files as they are", () => {
+    expect(targetsFromFile("hosts.txt", " example.com\n10.0.0.1\n")).toBe("example.com\n10.0.0.1");
+  });
+});
@@ -0,0 +1,255 @@
+import type { ScannerDefinition } from "@/scanners";
+
+/** Upper bound on how many targets one bulk scan may expand to. */
+export const MAX_BULK_TARGETS = 1024;
+
+export type TargetKind = "ipv4" | "ipv6" | "hostname" | "url" | "cidr";
+
+export interface ParsedTarget {
+  kind: TargetKind;
+  /** Host without IPv6 brackets, or the whole range for CIDR targets. */
+  host: string;
+  port?: string;
+  /** Only set for URL targets. */
+  url?: URL;
+}
+
+export interface TargetExpansion {
+  /** Valid targets as typed; normalize per scanner with `normalizeTarget`. */
+  targets: string[];
+  /** Entries dropped because they repeat an earlier target. */
+  duplicates: number;
+  errors: string[];
+}
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const CIDR_PATTERN = /^(\d{1,3}(?:\.\d{1,3}){3})\/(\d{1,2})$/;
+const RANGE_PATTERN = /^(\d{1,3}(?:\.\d{1,3}){3})-(\d{1,3}(?:\.\d{1,3}){3}|\d{1,3})$/;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i;
+const CSV_HEADERS = new Set(["target", "targets", "host", "hostname", "ip", "address", "url"]);
+
+/** Parses a dotted-quad IPv4 address into a 32-bit number, or null. */
+export function parseIpv4(value: string): number | null {
+  const match = IPV4_PATTERN.exec(value);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return octets.reduce((address, octet) => address * 256 + octet, 0);
+}
+
+export function formatIpv4(address: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(address / 2 ** shift) % 256).join(".");
+}
+
+const isIpv6 = (value: string) => {
+  if (!value.includes(":")) return false;
+  try {
+    new URL(`http://[${value}]`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Compressed, lower-case form of an IPv6 address, so equal addresses compare equal. */
+export function canonicalIpv6(address: string): string {
+  return new URL(`http://[${address}]`).hostname.slice(1, -1);
+}
+
+// URL parsers read a host whose last label is a number, such as 0x7f.1, as an IPv4 address.
+const endsInNumber = (host: string) => {
+  const last = host.replace(/\.$/, "").split(".").pop();
+  return /^\d+$/.test(last) || /^0x[0-9a-f]*$/i.test(last);
+};
+
+const isValidPort = (port: string) => Number(port) >= 1 && Number(port) <= 65535;
+
+function classifyHost(host: string): { kind?: "ipv4" | "ipv6" | "hostname"; error?: string } {
+  if (/^[\d.]+$/.test(host)) {
+    return parseIpv4(host) === null ? { error: `${host} is not a valid IPv4 address` } : { kind: "ipv4" };
+  }
+  if (host.includes(":")) {
+    return isIpv6(host) ? { kind: "ipv6" } : { error: `${host} is not a valid IPv6 address` };
+  }
+  if (endsInNumber(host)) return { error: `${host} is not a valid IPv4 address; write it as four decimal octets` };
+  return HOSTNAME_PATTERN.test(host) ? { kind: "hostname" } : { error: `${host} is not a valid hostname` };
+}
+
+/**
+ * Classifies one target. Accepts IPv4 and IPv6 addresses (optionally
+ * `host:port` or `[v6]:port`), hostnames, http(s) URLs and CIDR ranges.
+ */
+export function parseTarget(input: string): { target?: ParsedTarget; error?: string } {
+  const value = input.trim();
+  if (!value) return { error: "Enter a target" };
+
+  if (value.includes("://")) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return { error: `${value} is not a valid URL` };
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return { error: `${value} uses ${url.protocol.slice(0, -1)}; only http and https URLs can be scanned` };
+    }
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    const { error } = classifyHost(host);
+    if (error) return { error };
+    return { target: { kind: "url", host, port: url.port || undefined, url } };
+  }
+
+  const cidr = /^(.+)\/(\d{1,3})$/.exec(value);
+  if (cidr) {
+    const { kind } = classifyHost(cidr[1]);
+    const maxPrefix = kind === "ipv4" ? 32 : kind === "ipv6" ? 128 : -1;
+    if (Number(cidr[2]) > maxPrefix) return { error: `${value} is not a valid CIDR range` };
+    return { target: { kind: "cidr", host: value } };
+  }
+
+  const withPort = /^\[([^\]]+)\](?::(\d+))?$/.exec(value) ?? /^([^:]+):(\d+)$/.exec(value);
+  const host = withPort ? withPort[1] : value;
+  const port = withPort?.[2];
+  if (port !== undefined && !isValidPort(port)) return { error: `${value} has an invalid port` };
+  const { kind, error } = classifyHost(host);
+  if (error) return { error };
+  if (withPort && value.startsWith("[") && kind !== "ipv6") return { error: `${value} is not a valid IPv6 address` };
+  return { target: { kind, host, port } };
+}
+
+/**
+ * Rewrites a target into the form a scanner expects: network scanners get the
+ * bare host (or CIDR range), web scanners keep the scheme, port and path.
+ * Unparseable input is returned unchanged.
+ */
+export function normalizeTarget(input: string, category: ScannerDefinition["category"]): string {
+  const { target } = parseTarget(input);
+  if (!target) return input.trim();
+  if (category === "network" || target.kind === "cidr") return target.host;
+  if (target.url) {
+    const { origin, pathname, search } = target.url;
+    return `${origin}${pathname === "/" ? "" : pathname}${search}`;
+  }
+  const host = target.kind === "ipv6" ? `[${target.host}]` : target.host;
+  return target.port ? `${host}:${target.port}` : host;
+}
+
+/** Explains where a target and scanner are a poor match; empty when they fit. */
+export function targetWarnings(input: string, scanner: ScannerDefinition): string[] {
+  const { target } = parseTarget(input);
+  if (!target) return [];
+  const warnings: string[] = [];
+
+  if (scanner.category === "web") {
+    if (target.kind === "cidr") {
+      warnings.push(`${scanner.toolName} tests web servers; a range like ${target.host} is better covered by a Full assessment, which finds the web ports first.`);
+    } else if ((target.kind === "ipv4" || target.kind === "ipv6") && !target.port) {
+      warnings.push(`${scanner.toolName} tests web servers, but ${target.host} has no web port; only port 80 will be tried. Use a URL such as http://${target.kind === "ipv6" ? `[${target.host}]` : target.host}:8080.`);
+    }
+  } else {
+    if (target.url && (target.url.pathname !== "/" || target.url.search)) {
+      warnings.push(`${scanner.toolName} scans hosts, so the path in ${input.trim()} is ignored.`);
+    }
+    if (target.port) {
+      warnings.push(`${scanner.toolName} ignores port ${target.port} in the target; set it under Ports in the advanced options.`);
+    }
+  }
+  return warnings;
+}
+
+const ipRange = (first: number, last: number) =>
+  Array.from({ length: last - first + 1 }, (_, index) => formatIpv4(first + index));
+
+/**
+ * Expands one entry: a CIDR block (without its network and broadcast
+ * addresses, except for /31 and /32), a hyphenated range such as
+ * `10.0.0.1-20` or `10.0.0.1-10.0.1.5`, or a single host or URL.
+ */
+function expandEntry(entry: string): { targets?: string[]; error?: string } {
+  // Scope rules only cover IPv4 ranges, so an IPv6 range could be neither scoped nor counted.
+  if (/^[^/]*:[^/]*\/\d+$/.test(entry)) {
+    return { error: `${entry}: IPv6 ranges are not supported; list the addresses instead` };
+  }
+  const cidr = CIDR_PATTERN.exec(entry);
+  if (cidr) {
+    const base = parseIpv4(cidr[1]);
+    const prefix = Number(cidr[2]);
+    if (base === null || prefix > 32) return { error: `${entry} is not a valid CIDR range` };
+    const size = 2 ** (32 - prefix);
+    const usable = prefix >= 31 ? size : size - 2;
+    if (usable > MAX_BULK_TARGETS) {
+      return { error: `${entry} expands to ${usable} hosts; the limit is ${MAX_BULK_TARGETS}` };
+    }
+    const network = base - (base % size);
+    return { targets: prefix >= 31 ? ipRange(network, network + size - 1) : ipRange(network + 1, network + size - 2) };
+  }
+
+  const range = RANGE_PATTERN.exec(entry);
+  if (range) {
+    const first = parseIpv4(range[1]);
+    const last = range[2].includes(".")
+      ? parseIpv4(range[2])
+      : first === null ? null : first - (first % 256) + Number(range[2]);
+    if (first === null || last === null || Number(range[2]) > 255) return { error: `${entry} is not a valid IP range` };
+    if (last < first) return { error: `${entry} ends before it starts` };
+    if (last - first + 1 > MAX_BULK_TARGETS) {
+      return { error: `${entry} expands to ${last - first + 1} hosts; the limit is ${MAX_BULK_TARGETS}` };
+    }
+    return { targets: ipRange(first, last) };
+  }
+
+  return { targets: [entry] };
+}
+
+/**
+ * Splits free-form input (newlines, commas, semicolons or spaces), expands
+ * ranges, rejects malformed entries and removes duplicates, keeping the first
+ * spelling of each target.
+ */
+export function expandTargets(input: string): TargetExpansion {
+  const seen = new Set<string>();
+  const targets: string[] = [];
+  const errors: string[] = [];
+  let duplicates = 0;
+
+  for (const entry of input.split(/[\s,;]+/).filter(Boolean)) {
+    const { targets: expanded, error } = expandEntry(entry);
+    if (error) {
+      errors.push(error);
+      continue;
+    }
+    for (const target of expanded) {
+      const { error: invalid } = parseTarget(target);
+      if (invalid) {
+        errors.push(invalid);
+        continue;
+      }
+      const key = target.toLowerCase();
+      if (seen.has(key)) {
+        duplicates += 1;
+      } else {
+        seen.add(key);
+        targets.push(target);
+      }
+    }
+  }
+
+  if (targets.length > MAX_BULK_TARGETS) {
+    errors.push(`${targets.length} targets exceed the limit of ${MAX_BULK_TARGETS}`);
+    targets.length = MAX_BULK_TARGETS;
+  }
+  return { targets, duplicates, errors };
+}
+
+/**
+ * Reads an uploaded target list. Plain text files are used as-is; CSV files
+ * contribute the first column of each row, skipping a header row.
+ */
+export function targetsFromFile(fileName: string, text: string): string {
+  if (!fileName.toLowerCase().endsWith(".csv")) return text.trim();
+  return text
+    .split(/\r?\n/)
+    .map((row) => row.split(",")[0].trim().replace(/^"(.*)"$/, "$1"))
+    .filter((cell, index) => cell && !(index === 0 && CSV_HEADERS.has(cell.toLowerCase())))
+    .join("\n");
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { findingEntitySchema, serviceEntitySchema, type FindingEntity } from "@/lib/scan-model";
+import { findingsFromEntities, mergeFindings } from "@/lib/unified-findings";
+
+const finding = (input: Partial<FindingEntity>): FindingEntity =>
+  findingEntitySchema.parse({ kind: "finding", scanner: "nuclei", title: "Finding", severity: "low", ...input });
+
+describe("mergeFindings", () => {
+  it("merges known issues however each scanner words them, across paths", () => {
+    const [merged, ...rest] = mergeFindings([
+      finding({ scanner: "nuclei", title: "Missing X-Frame-Options header", ruleId: "http-missing-security-headers", location: "https://example.com/" }),
+      finding({ scanner: "nikto", title: "The anti-clickjacking X-Frame-Options header is not present.", severity: "info", location: "http://example.com/app" }),
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(merged).toMatchObject({
+      key: "issue:missing-x-frame-options",
+      title: "Missing X-Frame-Options header",
+      severity: "low",
+      scanners: ["nuclei", "nikto"],
+      corroborated: true,
+      locations: ["https://example.com/", "http://example.com/app"],
+    });
+  });
+
+  it("merges findings that share CVE IDs, including ones only named in the text", () => {
+    const merged = mergeFindings([
+      finding({ scanner: "nuclei", title: "Apache path traversal", severity: "critical", classification: { cve: ["cve-2021-41773"], cwe: [] } }),
+      finding({ scanner: "nikto", title: "Apache 2.4.49 is vulnerable to CVE-2021-41773.", severity: "high" }),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ key: "cve:CVE-2021-41773", severity: "critical", title: "Apache path traversal" });
+  });
+
+  it("keeps other findings apart unless title and path match", () => {
+    const merged = mergeFindings([
+      finding({ title: "Debug page", location: "https://example.com/debug" }),
+      finding({ scanner: "nikto", title: "debug page", location: "http://www.example.com/debug" }),
+      finding({ title: "Debug page", location: "https://example.com/other" }),
+    ]);
+
+    expect(merged.map((entry) => entry.findings.length)).toEqual([2, 1]);
+  });
+
+  it("keeps the most severe, then most detailed, report as the primary one", () => {
+    const detailed = finding({ scanner: "nikto", title: "Debug page", severity: "medium", remediation: "Remove it", references: ["https://example.com/advisory"] });
+    const [merged] = mergeFindings([finding({ title: "Debug page", severity: "medium" }), detailed]);
+
+    expect(merged.primary).toBe(detailed);
+  });
+
+  it("orders by severity, then corroborated issues first", () => {
+    const merged = mergeFindings([
+      finding({ title: "Low", severity: "low" }),
+      finding({ title: "Single", severity: "high" }),
+      finding({ title: "Confirmed", severity: "high" }),
+      finding({ scanner: "nikto", title: "Confirmed", severity: "medium" }),
+    ]);
+
+    expect(merged.map((entry) => entry.title)).toEqual(["Confirmed", "Single", "Low"]);
+  });
+
+  it("does not let rejected scanners corroborate an issue", () => {
+    const [merged] = mergeFindings(
+      [finding({ title: "Debug page" }), finding({ scanner: "nikto", title: "Debug page" })],
+      (scanner) => scanner !== "nikto"
+    );
+
+    expect(merged.scanners).toEqual(["nuclei", "nikto"]);
+    expect(merged.corroborated).toBe(false);
+  });
+});
+
+describe("findingsFromEntities", () => {
+  it("turns open services into informational findings and drops the rest", () => {
+    const service = (state: string) =>
+      serviceEntitySchema.parse({ kind: "service", scanner: "nmap", host: "10.0.0.1", port: 22, protocol: "tcp", state, name: "ssh", product: "OpenSSH" });
+
+    const findings = findingsFromEntities([service("open"), service("filtered"), finding({ title: "Weak cipher" })]);
+
+    expect(findings.map(({ title, severity, location, description }) => ({ title, severity, location, description }))).toEqual([
+      { title: "Open port 22/tcp", severity: "info", location: "10.0.0.1:22", description: "ssh OpenSSH" },
+      { title: "Weak cipher", severity: "low", location: undefined, description: undefined },
+    ]);
+  });
+});
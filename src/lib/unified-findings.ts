@@ -0,0 +1,150 @@
+import type { EntitySeverity, FindingEntity, ScanEntity, ServiceEntity } from "@/lib/scan-model";
+import { severityRank } from "@/scanners/styles";
+
+/** One issue as reported by one or more scanners. */
+export interface MergedFinding {
+  /** What makes two reports the same issue, e.g. "issue:missing-x-frame-options" or "cve:CVE-2021-41773". */
+  key: string;
+  title: string;
+  /** The highest severity any scanner gave it. */
+  severity: EntitySeverity;
+  /** Scanner IDs that reported it, in the order they were merged. */
+  scanners: string[];
+  /** Reported by more than one scanner whose results count as confirmation. */
+  corroborated: boolean;
+  locations: string[];
+  /** The most severe, most detailed report, shown in the detail drawer. */
+  primary: FindingEntity;
+  findings: FindingEntity[];
+}
+
+const MISSING = /\b(missing|not (?:present|set|defined|implemented)|absent|lacks?|without)\b/i;
+
+/**
+ * Issues scanners describe in their own words. Header issues are site-wide, so
+ * reports at different paths merge; the others only merge at the same path.
+ */
+const KNOWN_ISSUES: { id: string; title: string; matches: (text: string) => boolean; perLocation?: boolean }[] = [
+  ...[
+    ['x-frame-options', 'X-Frame-Options'],
+    ['strict-transport-security', 'Strict-Transport-Security'],
+    ['content-security-policy', 'Content-Security-Policy'],
+    ['x-content-type-options', 'X-Content-Type-Options'],
+    ['referrer-policy', 'Referrer-Policy'],
+    ['permissions-policy', 'Permissions-Policy'],
+  ].map(([id, header]) => ({
+    id: `missing-${id}`,
+    title: `Missing ${header} header`,
+    matches: (text: string) => text.toLowerCase().includes(id) && MISSING.test(text),
+  })),
+  {
+    id: 'directory-listing',
+    title: 'Directory listing enabled',
+    matches: (text) => /directory (?:listing|indexing|browsing)|dir-listing|\bindex of \//i.test(text),
+    perLocation: true,
+  },
+  { id: 'etag-inode-leak', title: 'ETag header leaks inode numbers', matches: (text) => /inodes? via etags?|etag.{0,40}inode/i.test(text) },
+  { id: 'http-trace-enabled', title: 'HTTP TRACE method enabled', matches: (text) => /\bhttp trace\b|trace method|cross[- ]site tracing|\bxst\b/i.test(text) },
+];
+
+const CVE_PATTERN = /\bCVE-\d{4}-\d{4,}\b/gi;
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** The path of a finding's location, so the same issue on http and https or two hostnames still lines up. */
+const locationPath = (location: string | undefined) => {
+  if (!location) return '/';
+  try {
+    return new URL(location).pathname;
+  } catch {
+    return location.startsWith('/') ? location : '/';
+  }
+};
+
+/** Chooses what identifies the issue: a known issue, then CVE IDs, then the wording at the same path. */
+function issueKey(finding: FindingEntity): { key: string; title?: string } {
+  const text = [finding.ruleId, finding.evidence.matcher, finding.title, finding.description].filter(Boolean).join(' ');
+  const path = locationPath(finding.location);
+  const issue = KNOWN_ISSUES.find((candidate) => candidate.matches(text));
+  if (issue) return { key: `issue:${issue.id}${issue.perLocation ? `@${path}` : ''}`, title: issue.title };
+  // Nikto mentions CVEs in its messages rather than classifying them.
+  const cves = [...new Set([...finding.classification.cve, ...(text.match(CVE_PATTERN) ?? [])].map((id) => id.toUpperCase()))].sort();
+  if (cves.length > 0) return { key: `cve:${cves.join(',')}` };
+  return { key: `text:${normalizeText(finding.title)}@${path}` };
+}
+
+// More evidence makes a better representative when severities tie.
+const detail = (finding: FindingEntity) =>
+  Object.values(finding.evidence).filter((value) => (Array.isArray(value) ? value.length > 0 : Boolean(value))).length +
+  finding.references.length +
+  (finding.remediation ? 1 : 0);
+
+/** Open ports become informational findings so discovery results sit in the same list. */
+export function serviceFinding(service: ServiceEntity): FindingEntity {
+  const where = service.host ? `${service.host}:${service.port}` : String(service.port);
+  return {
+    kind: 'finding',
+    scanner: service.scanner,
+    title: `Open port ${service.port}/${service.protocol}`,
+    severity: 'info',
+    host: service.host,
+    location: where,
+    description: [service.name, service.product, service.version].filter(Boolean).join(' ') || undefined,
+    evidence: { extracted: service.cpe },
+    classification: { cve: [], cwe: [] },
+    references: [],
+  };
+}
+
+/** Findings (and open services) from any scanners, ready to merge. */
+export function findingsFromEntities(entities: ScanEntity[]): FindingEntity[] {
+  return entities.flatMap((entity) => {
+    if (entity.kind === 'finding') return [entity];
+    if (entity.kind === 'service' && entity.state === 'open') return [serviceFinding(entity)];
+    return [];
+  });
+}
+
+/**
+ * Merges reports of the same issue across scanners into one entry per issue,
+ * most severe first and, within a severity, corroborated issues first. Scanners
+ * `corroborates` rejects, such as demo data, are listed but never confirm an issue.
+ */
+export function mergeFindings(findings: FindingEntity[], corroborates: (scanner: string) => boolean = () => true): MergedFinding[] {
+  const merged = new Map<string, MergedFinding>();
+  findings.forEach((finding) => {
+    const { key, title } = issueKey(finding);
+    const entry = merged.get(key);
+    if (!entry) {
+      merged.set(key, {
+        key,
+        title: title ?? finding.title,
+        severity: finding.severity,
+        scanners: [finding.scanner],
+        corroborated: false,
+        locations: finding.location ? [finding.location] : [],
+        primary: finding,
+        findings: [finding],
+      });
+      return;
+    }
+    entry.findings.push(finding);
+    if (!entry.scanners.includes(finding.scanner)) entry.scanners.push(finding.scanner);
+    if (finding.location && !entry.locations.includes(finding.location)) entry.locations.push(finding.location);
+    const rank = severityRank(finding.severity) - severityRank(entry.primary.severity);
+    if (rank > 0 || (rank === 0 && detail(finding) > detail(entry.primary))) {
+      entry.primary = finding;
+      entry.severity = finding.severity;
+    }
+  });
+  merged.forEach((entry) => {
+    entry.corroborated = entry.scanners.filter(corroborates).length > 1;
+  });
+  return [...merged.values()].sort(
+    (a, b) =>
+      severityRank(b.severity) - severityRank(a.severity) ||
+      Number(b.corroborated) - Number(a.corroborated) ||
+      b.scanners.length - a.scanners.length ||
+      a.title.localeCompare(b.title)
+  );
+}
@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Download, FileText, GitCompare } from "lucide-react";
+import AppShell from "@/components/AppShell";
+import { Switch } from "@/components/ui/switch";
+import { useScanHistory } from "@/hooks/use-scan-history";
+import { DEMO_NOTICE } from "@/lib/demo-data";
+import { buildScanReport } from "@/lib/pdf-report";
+import { getScanRecord, type ScanRecord, type ScanRecordSummary } from "@/lib/scan-history";
+import { countDiff, describeChanges, diffScanResults, type ScanDiffKind, type ScanDiffRow } from "@/lib/scan-diff";
+import { toScanEntity } from "@/lib/scan-model";
+import { getScanner } from "@/scanners";
+
+const inputClassName = "w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+const KIND_ORDER: ScanDiffKind[] = ['added', 'changed', 'removed', 'unchanged'];
+
+const KIND_STYLES: Record<ScanDiffKind, { before: string; after: string; badge: string }> = {
+  added: { before: 'border-dashed border-white/10', after: 'bg-green-500/10 border-green-500/30', badge: 'text-green-300' },
+  removed: { before: 'bg-red-500/10 border-red-500/30', after: 'border-dashed border-white/10', badge: 'text-red-300' },
+  changed: { before: 'bg-amber-500/10 border-amber-500/30', after: 'bg-amber-500/10 border-amber-500/30', badge: 'text-amber-300' },
+  unchanged: { before: 'bg-white/5 border-white/10 opacity-60', after: 'bg-white/5 border-white/10 opacity-60', badge: 'text-white/60' },
+};
+
+// Scans are only comparable with others of the same scanner and target.
+const seriesKey = (record: ScanRecordSummary) => `${record.type}\n${record.target}`;
+
+const scanLabel = (record: ScanRecordSummary) =>
+  `${new Date(record.startedAt).toLocaleString()} · ${record.status} · ${record.resultCount} results${record.demo ? ' · demo' : ''}`;
+
+const ComparePage = () => {
+  const { records, loading, error } = useScanHistory();
+  const [searchParams] = useSearchParams();
+  const [series, setSeries] = useState('');
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState('');
+  const [before, setBefore] = useState<ScanRecord | null>(null);
+  const [after, setAfter] = useState<ScanRecord | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const seriesList = useMemo(() => {
+    const groups = new Map<string, ScanRecordSummary[]>();
+    // Failed or cancelled scans are left out: their missing results would read as fixed issues.
+    records
+      .filter((record) => record.status === 'completed')
+      .forEach((record) => groups.set(seriesKey(record), [...(groups.get(seriesKey(record)) ?? []), record]));
+    return [...groups.entries()].filter(([, members]) => members.length > 1);
+  }, [records]);
+  const members = useMemo(() => seriesList.find(([key]) => key === series)?.[1] ?? [], [seriesList, series]);
+
+  // Start from the scan picked on the history page, or the latest series.
+  useEffect(() => {
+    if (series || seriesList.length === 0) return;
+    const requested = records.find((record) => record.id === searchParams.get('after'));
+    const initial = requested && seriesList.some(([key]) => key === seriesKey(requested)) ? seriesKey(requested) : seriesList[0][0];
+    const group = seriesList.find(([key]) => key === initial)[1];
+    const newer = requested && seriesKey(requested) === initial ? requested : group[0];
+    setSeries(initial);
+    setAfterId(newer.id);
+    setBeforeId(group.find((record) => record.startedAt < newer.startedAt)?.id ?? group.find((record) => record.id !== newer.id).id);
+  }, [records, searchParams, series, seriesList]);
+
+  const changeSeries = (key: string) => {
+    const group = seriesList.find(([candidate]) => candidate === key)?.[1] ?? [];
+    setSeries(key);
+    setAfterId(group[0]?.id ?? '');
+    setBeforeId(group[1]?.id ?? '');
+  };
+
+  useEffect(() => {
+    if (!beforeId || !afterId) return;
+    let cancelled = false;
+    Promise.all([getScanRecord(beforeId), getScanRecord(afterId)])
+      .then(([older, newer]) => {
+        if (cancelled) return;
+        setBefore(older);
+        setAfter(newer);
+        setLoadError(older && newer ? null : 'One of these scans is no longer in the history');
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeId, afterId]);
+
+  const scanner = after ? getScanner(after.type) : undefined;
+  const rows = useMemo(
+    () => (before && after && scanner ? diffScanResults(scanner.diff, before.results, after.results) : []),
+    [before, after, scanner]
+  );
+  const counts = countDiff(rows);
+  const groups = KIND_ORDER
+    .filter((kind) => kind !== 'unchanged' || showUnchanged)
+    .map((kind) => ({ kind, rows: rows.filter((row) => row.kind === kind) }))
+    .filter((group) => group.rows.length > 0);
+
+  const kindLabel = (kind: ScanDiffKind) => (kind === 'unchanged' ? 'Unchanged' : scanner?.diff.labels[kind] ?? kind);
+  const demo = Boolean(before?.demo || after?.demo);
+  const filePrefix = `${demo ? 'demo-' : ''}securescan-${after?.type}-diff`;
+
+  const downloadDiff = () => {
+    if (!before || !after) return;
+    const summary = (record: ScanRecord) => ({ id: record.id, startedAt: record.startedAt, status: record.status, demo: record.demo });
+    const payload = {
+      ...(demo ? { demo: true, notice: DEMO_NOTICE } : {}),
+      type: after.type,
+      target: after.target,
+      before: summary(before),
+      after: summary(after),
+      counts,
+      changes: rows.filter((row) => row.kind !== 'unchanged'),
+    };
+    const dataBlob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filePrefix}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadPDF = () => {
+    if (!before || !after || !scanner) return;
+    const pdf = buildScanReport({
+      title: 'SecureScan Comparison Report',
+      info: {
+        type: after.type,
+        target: after.target,
+        timestamp: new Date(after.finishedAt),
+        status: after.status,
+        demo,
+        authorization: after.authorization,
+      },
+      notes: [
+        `Baseline: scan of ${new Date(before.startedAt).toLocaleString()} (${before.status})`,
+        `Compared with: scan of ${new Date(after.startedAt).toLocaleString()} (${after.status})`,
+        `${counts.added} ${scanner.diff.labels.added.toLowerCase()}, ${counts.removed} ${scanner.diff.labels.removed.toLowerCase()}, ${counts.changed} ${scanner.diff.labels.changed.toLowerCase()}, ${counts.unchanged} unchanged`,
+      ],
+      sections: KIND_ORDER.filter((kind) => kind !== 'unchanged').map((kind) => {
+        const kindRows = rows
+          .filter((row) => row.kind === kind)
+          .map((row) => ({ row, entity: toScanEntity(scanner, row.after ?? row.before) }))
+          .filter(({ entity }) => entity !== undefined);
+        return {
+          title: `${kindLabel(kind)} (${counts[kind]})`,
+          entities: kindRows.map(({ entity }) => entity),
+          skipped: counts[kind] - kindRows.length,
+          annotate: (cursor, _entity, index) => {
+            const { row } = kindRows[index];
+            if (row.kind === 'changed') cursor.wrapped(`Changed: ${describeChanges(row)}`, 10);
+          },
+        };
+      }),
+    });
+    pdf.save(`${filePrefix}-${Date.now()}.pdf`);
+  };
+
+  const renderCell = (row: ScanDiffRow, side: 'before' | 'after') => {
+    const result = row[side];
+    return (
+      <div className={`p-3 rounded-xl border text-sm min-h-[3rem] ${KIND_STYLES[row.kind][side]}`}>
+        {result && (
+          <>
+            <p className="text-white/90 break-words">{scanner?.diff.describe(result)}</p>
+            {scanner && scanner.diff.compare.length > 0 && (
+              <p className="mt-1 text-xs text-white/50">
+                {scanner.diff.compare.map((field) => (
+                  <span key={field} className={`mr-3 ${row.changedFields.includes(field) ? 'text-amber-300 font-medium' : ''}`}>
+                    {field}: {String(result[field] || 'none')}
+                  </span>
+                ))}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <AppShell>
+      <motion.div
+        className="max-w-6xl mx-auto"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-white/10 rounded-lg">
+                <GitCompare className="w-5 h-5 text-violet-400" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-white">Compare Scans</h1>
+                <p className="text-sm text-white/60">What changed between two scans of the same target.</p>
+              </div>
+            </div>
+            {before && after && (
+              <div className="flex gap-2">
+                <motion.button
+                  onClick={downloadDiff}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-white/80 hover:text-white transition-all flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  JSON
+                </motion.button>
+                <motion.button
+                  onClick={downloadPDF}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-white/80 hover:text-white transition-all flex items-center gap-2"
+                >
+                  <FileText className="w-4 h-4" />
+                  PDF
+                </motion.button>
+              </div>
+            )}
+          </div>
+
+          {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+          {loading ? (
+            <p className="text-sm text-white/60">Loading history…</p>
+          ) : seriesList.length === 0 ? (
+            <p className="text-sm text-white/60">Complete the same scan against a target twice to compare the results.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div>
+                  <label htmlFor="compareSeries" className="block text-sm font-medium text-white/80 mb-3">Target</label>
+                  <select id="compareSeries" value={series} onChange={(e) => changeSeries(e.target.value)} className={inputClassName}>
+                    {seriesList.map(([key, group]) => (
+                      <option key={key} value={key}>
+                        {group[0].target} ({getScanner(group[0].type)?.toolName ?? group[0].type})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="compareBefore" className="block text-sm font-medium text-white/80 mb-3">Baseline</label>
+                  <select id="compareBefore" value={beforeId} onChange={(e) => setBeforeId(e.target.value)} className={inputClassName}>
+                    {members.map((record) => (
+                      <option key={record.id} value={record.id} disabled={record.id === afterId}>{scanLabel(record)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="compareAfter" className="block text-sm font-medium text-white/80 mb-3">Compare With</label>
+                  <select id="compareAfter" value={afterId} onChange={(e) => setAfterId(e.target.value)} className={inputClassName}>
+                    {members.map((record) => (
+                      <option key={record.id} value={record.id} disabled={record.id === beforeId}>{scanLabel(record)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {loadError && <p className="mb-4 text-sm text-red-400">{loadError}</p>}
+
+              {before && after && scanner && (
+                <>
+                  <div className="flex flex-wrap items-center gap-4 mb-6 text-sm">
+                    <span className="text-green-300">+{counts.added} {scanner.diff.labels.added.toLowerCase()}</span>
+                    <span className="text-red-300">-{counts.removed} {scanner.diff.labels.removed.toLowerCase()}</span>
+                    <span className="text-amber-300">~{counts.changed} {scanner.diff.labels.changed.toLowerCase()}</span>
+                    <span className="text-white/60">{counts.unchanged} unchanged</span>
+                    <label className="ml-auto flex items-center gap-2 text-white/70">
+                      <Switch checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                      Show unchanged
+                    </label>
+                  </div>
+
+                  {groups.length === 0 ? (
+                    <p className="text-sm text-white/60">No differences between these scans.</p>
+                  ) : (
+                    <div className="space-y-6">
+                      <div className="grid grid-cols-2 gap-3 text-xs uppercase tracking-wide text-white/50">
+                        <span>Baseline · {new Date(before.startedAt).toLocaleString()}</span>
+                        <span>Compared · {new Date(after.startedAt).toLocaleString()}</span>
+                      </div>
+                      {groups.map((group) => (
+                        <div key={group.kind}>
+                          <h2 className={`mb-3 text-sm font-medium ${KIND_STYLES[group.kind].badge}`}>
+                            {kindLabel(group.kind)} ({group.rows.length})
+                          </h2>
+                          <div className="space-y-2">
+                            {group.rows.map((row) => (
+                              <div key={row.key} className="grid grid-cols-2 gap-3">
+                                {renderCell(row, 'before')}
+                                {renderCell(row, 'after')}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </motion.div>
+    </AppShell>
+  );
+};
+
+export default ComparePage;
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Download, ExternalLink, Layers } from "lucide-react";
+import AppShell from "@/components/AppShell";
+import FindingDetailSheet from "@/components/results/FindingDetailSheet";
+import MergedFindingList from "@/components/results/MergedFindingList";
+import { Switch } from "@/components/ui/switch";
+import { useScanHistory } from "@/hooks/use-scan-history";
+import { DEMO_NOTICE } from "@/lib/demo-data";
+import { getScanRecord, type ScanRecord, type ScanRecordSummary } from "@/lib/scan-history";
+import { normalizeResults, type FindingEntity } from "@/lib/scan-model";
+import { normalizeTarget } from "@/lib/targets";
+import { findingsFromEntities, mergeFindings } from "@/lib/unified-findings";
+import { getScanner } from "@/scanners/registry";
+import { severityRank } from "@/scanners/styles";
+
+const inputClassName = "w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'];
+
+// Nmap scans a host while web scanners scan its URLs; both count as the same target.
+const hostOf = (target: string) => normalizeTarget(target, 'network').toLowerCase();
+
+const toolName = (scannerId: string) => getScanner(scannerId)?.toolName ?? scannerId;
+
+const FindingsPage = () => {
+  const { records, loading, error } = useScanHistory();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [sources, setSources] = useState<ScanRecord[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [minSeverity, setMinSeverity] = useState('info');
+  const [corroboratedOnly, setCorroboratedOnly] = useState(false);
+  const [selected, setSelected] = useState<FindingEntity | null>(null);
+
+  // Hosts with completed scans that have results, most recently scanned first.
+  const hosts = useMemo(
+    () => [...new Set(records.filter((record) => record.status === 'completed' && record.resultCount > 0).map((record) => hostOf(record.target)))],
+    [records]
+  );
+  const requested = searchParams.get('target');
+  const host = requested ? hostOf(requested) : hosts[0] ?? '';
+
+  // The latest completed scan of the host by each scanner, ignoring demo scans once there are real ones.
+  // A failed or cancelled scan's partial results would otherwise hide the last complete picture.
+  const latest = useMemo(() => {
+    const byScanner = new Map<string, ScanRecordSummary>();
+    const scans = records.filter(
+      (record) => record.status === 'completed' && record.resultCount > 0 && hostOf(record.target) === host
+    );
+    const live = scans.filter((record) => !record.demo);
+    (live.length > 0 ? live : scans).forEach((record) => {
+      if (!byScanner.has(record.type)) byScanner.set(record.type, record);
+    });
+    return [...byScanner.values()];
+  }, [records, host]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(latest.map((record) => getScanRecord(record.id)))
+      .then((loaded) => {
+        if (cancelled) return;
+        setSources(loaded.filter(Boolean));
+        setLoadError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [latest]);
+
+  const demo = sources.some((record) => record.demo);
+  const merged = useMemo(() => {
+    const demoScanners = new Set(sources.filter((record) => record.demo).map((record) => record.type));
+    return mergeFindings(
+      sources.flatMap((record) => {
+        const scanner = getScanner(record.type);
+        return scanner ? findingsFromEntities(normalizeResults(scanner, record.results).entities) : [];
+      }),
+      (scannerId) => !demoScanners.has(scannerId)
+    );
+  }, [sources]);
+  const visible = merged.filter(
+    (finding) => severityRank(finding.severity) >= severityRank(minSeverity) && (!corroboratedOnly || finding.corroborated)
+  );
+  const corroborated = merged.filter((finding) => finding.corroborated).length;
+
+  const downloadFindings = () => {
+    const payload = {
+      ...(demo ? { demo: true, notice: DEMO_NOTICE } : {}),
+      target: host,
+      sources: sources.map(({ id, type, target, startedAt, status }) => ({ id, type, target, startedAt, status })),
+      findings: merged.map(({ key, title, severity, scanners, corroborated, locations, findings }) => ({ key, title, severity, scanners, corroborated, locations, reports: findings })),
+    };
+    const dataBlob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${demo ? 'demo-' : ''}securescan-findings-${host}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <AppShell>
+      <motion.div
+        className="max-w-6xl mx-auto"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-white/10 rounded-lg">
+                <Layers className="w-5 h-5 text-violet-400" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-white">Findings</h1>
+                <p className="text-sm text-white/60">Every scanner's latest results for a target, merged and ranked by severity.</p>
+              </div>
+            </div>
+            {merged.length > 0 && (
+              <motion.button
+                onClick={downloadFindings}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-white/80 hover:text-white transition-all flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                JSON
+              </motion.button>
+            )}
+          </div>
+
+          {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+          {loading ? (
+            <p className="text-sm text-white/60">Loading history…</p>
+          ) : hosts.length === 0 ? (
+            <p className="text-sm text-white/60">Scan a target, or import a report, to see its findings here.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div className="md:col-span-2">
+                  <label htmlFor="findingsTarget" className="block text-sm font-medium text-white/80 mb-3">Target</label>
+                  <select
+                    id="findingsTarget"
+                    value={host}
+                    onChange={(e) => setSearchParams({ target: e.target.value }, { replace: true })}
+                    className={inputClassName}
+                  >
+                    {!hosts.includes(host) && <option value={host}>{host}</option>}
+                    {hosts.map((candidate) => (
+                      <option key={candidate} value={candidate}>{candidate}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="findingsSeverity" className="block text-sm font-medium text-white/80 mb-3">Minimum Severity</label>
+                  <select id="findingsSeverity" value={minSeverity} onChange={(e) => setMinSeverity(e.target.value)} className={inputClassName}>
+                    {SEVERITIES.map((severity) => (
+                      <option key={severity} value={severity}>{severity.charAt(0).toUpperCase() + severity.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <div className="flex flex-wrap gap-2">
+                  {latest.map((record) => (
+                    <Link
+                      key={record.id}
+                      to={`/?scan=${encodeURIComponent(record.id)}`}
+                      className="px-3 py-1.5 rounded-lg text-xs bg-white/5 border border-white/10 text-white/70 hover:text-white hover:bg-white/10 transition-all flex items-center gap-1"
+                      title="Open this scan"
+                    >
+                      {toolName(record.type)} · {new Date(record.startedAt).toLocaleString()}
+                      {record.demo && <span className="text-amber-300"> · demo</span>}
+                      <ExternalLink className="w-3 h-3" />
+                    </Link>
+                  ))}
+                </div>
+                <label htmlFor="corroboratedOnly" className="flex items-center gap-2 text-sm text-white/60 cursor-pointer">
+                  <Switch
+                    id="corroboratedOnly"
+                    checked={corroboratedOnly}
+                    onCheckedChange={setCorroboratedOnly}
+                    className="data-[state=checked]:bg-violet-500 data-[state=unchecked]:bg-white/10"
+                  />
+                  Only findings reported by several scanners
+                </label>
+              </div>
+
+              {loadError && <p className="mb-4 text-sm text-red-400">{loadError}</p>}
+              {demo && (
+                <p className="mb-4 text-sm text-amber-300">Some of these scans used demo data; their findings are not real and do not count as corroboration.</p>
+              )}
+
+              <p className="mb-3 text-sm text-white/60">
+                {latest.length === 0
+                  ? `There are no completed scans of ${host} with results yet.`
+                  : `${merged.length} findings from ${sources.length} ${sources.length === 1 ? 'scanner' : 'scanners'}, ${corroborated} corroborated${visible.length !== merged.length ? `, ${visible.length} shown` : ''}`}
+              </p>
+
+              <MergedFindingList
+                findings={visible}
+                onSelect={(finding) => setSelected(finding.primary)}
+                resetKey={`${host}|${minSeverity}|${corroboratedOnly}`}
+              />
+              {sources.length > 0 && visible.length === 0 && (
+                <p className="py-8 text-center text-sm text-white/60">No findings match these filters.</p>
+              )}
+            </>
+          )}
+        </div>
+      </motion.div>
+      <FindingDetailSheet finding={selected} onClose={() => setSelected(null)} />
+    </AppShell>
+  );
+};
+
+export default FindingsPage;
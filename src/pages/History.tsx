@@ -0,0 +1,254 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ExternalLink, GitCompare, History, Search, Trash2 } from "lucide-react";
+import AppShell from "@/components/AppShell";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useScanHistory } from "@/hooks/use-scan-history";
+import { useToast } from "@/hooks/use-toast";
+import { getScanner, listScanners } from "@/scanners";
+
+const inputClassName = "w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-500/20 text-green-300 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-300 border-red-500/30',
+  cancelled: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const HistoryPage = () => {
+  const { records, loading, error, remove, clear } = useScanHistory();
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [confirmClear, setConfirmClear] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Completed scans with an earlier completed run of the same scanner against the same target can be compared.
+  const comparable = useMemo(() => {
+    const seen = new Set<string>();
+    const ids = new Set<string>();
+    [...records].reverse().filter((record) => record.status === 'completed').forEach((record) => {
+      const key = `${record.type}\n${record.target}`;
+      if (seen.has(key)) ids.add(record.id);
+      seen.add(key);
+    });
+    return ids;
+  }, [records]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    // Date inputs give local calendar days; `to` includes the whole day.
+    const fromTime = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+    const toTime = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+    return records.filter((record) => {
+      const started = new Date(record.startedAt).getTime();
+      return (
+        (!query || record.target.toLowerCase().includes(query)) &&
+        (typeFilter === 'all' || record.type === typeFilter) &&
+        started >= fromTime &&
+        started <= toTime
+      );
+    });
+  }, [records, search, typeFilter, from, to]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await remove(id);
+    } catch (err) {
+      toast({ title: "Could not delete scan", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clear();
+      toast({ title: "History cleared" });
+    } catch (err) {
+      toast({ title: "Could not clear history", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <AppShell>
+      <motion.div
+        className="max-w-6xl mx-auto"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-white/10 rounded-lg">
+                <History className="w-5 h-5 text-violet-400" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-white">Scan History</h1>
+                <p className="text-sm text-white/60">Every scan run in this browser, stored locally.</p>
+              </div>
+            </div>
+            {records.length > 0 && (
+              <motion.button
+                onClick={() => setConfirmClear(true)}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 bg-white/5 hover:bg-red-500/20 text-white/80 hover:text-red-300 transition-all"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear All
+              </motion.button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-white/40" />
+              <input
+                aria-label="Search targets"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search targets"
+                className={`${inputClassName} pl-10`}
+              />
+            </div>
+            <select
+              aria-label="Scan type"
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="all">All scan types</option>
+              {listScanners().map((scanner) => (
+                <option key={scanner.id} value={scanner.id}>{scanner.label}</option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                aria-label="From date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className={`${inputClassName} px-3 [color-scheme:dark]`}
+              />
+              <input
+                type="date"
+                aria-label="To date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className={`${inputClassName} px-3 [color-scheme:dark]`}
+              />
+            </div>
+          </div>
+
+          {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+          {loading ? (
+            <p className="text-sm text-white/60">Loading history…</p>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-white/60">
+              {records.length === 0 ? 'No scans yet. Finished scans appear here automatically.' : 'No scans match these filters.'}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {filtered.map((record) => (
+                <div
+                  key={record.id}
+                  className="flex flex-wrap items-center gap-4 p-4 bg-white/5 border border-white/10 rounded-xl"
+                >
+                  <div className="flex-1 min-w-[12rem]">
+                    <p className="font-mono text-sm text-white break-all">{record.target}</p>
+                    <p className="mt-1 text-xs text-white/50">
+                      {getScanner(record.type)?.toolName ?? record.type} · {new Date(record.startedAt).toLocaleString()} · {formatDuration(record.durationMs)} · {record.resultCount} results
+                      {record.profileName && ` · ${record.profileName}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-medium border ${STATUS_STYLES[record.status] ?? STATUS_STYLES.cancelled}`}>
+                      {record.status.toUpperCase()}
+                    </span>
+                    {record.demo && (
+                      <span className="px-2 py-0.5 rounded-md text-xs font-medium border bg-amber-500/20 text-amber-300 border-amber-500/30">
+                        DEMO
+                      </span>
+                    )}
+                    {record.importedFrom && (
+                      <span title={record.importedFrom} className="px-2 py-0.5 rounded-md text-xs font-medium border bg-sky-500/20 text-sky-300 border-sky-500/30">
+                        IMPORTED
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <motion.button
+                      onClick={() => navigate(`/?scan=${encodeURIComponent(record.id)}`)}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      className="px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 bg-violet-600/80 hover:bg-violet-500 text-white transition-all"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      Open
+                    </motion.button>
+                    {comparable.has(record.id) && (
+                      <button
+                        onClick={() => navigate(`/compare?after=${encodeURIComponent(record.id)}`)}
+                        title="Compare with the previous scan"
+                        className="p-2 rounded-lg text-white/60 hover:text-violet-300 hover:bg-white/5 transition-colors"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => void handleDelete(record.id)}
+                      title="Delete"
+                      className="p-2 rounded-lg text-white/60 hover:text-red-400 hover:bg-white/5 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </motion.div>
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent className="dark bg-slate-900 text-white border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear scan history?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {records.length} saved scans and their results are deleted from this browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void handleClear()} className="bg-red-600 hover:bg-red-500 text-white">
+              Clear History
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppShell>
+  );
+};
+
+export default HistoryPage;
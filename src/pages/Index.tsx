@@ -1,150 +1,324 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { useSearchParams } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { motion, AnimatePresence } from "framer-motion";
-import { Shield, Zap, Globe, Server, Download, Copy, AlertTriangle, CheckCircle, Clock, Eye, FileText } from "lucide-react";
-import jsPDF from 'jspdf';
+import { Shield, Zap, Globe, Download, Copy, AlertTriangle, CheckCircle, Clock, Eye, FileText, Square, ListChecks, FileUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-// Backend API constant - Updated to be more flexible
-const BACKEND_URL = process.env.NODE_ENV === 'production' 
-  ? "https://your-backend-domain.com" // Replace with your actual backend URL
-  : "http://localhost:5000";
-
-interface ScanResult {
-  port?: string;
-  state?: string;
-  service?: string;
-  severity?: 'low' | 'medium' | 'high' | 'critical';
-  url?: string;
-  description?: string;
-  endpoint?: string;
-  title?: string;
-}
+import AppShell from "@/components/AppShell";
+import ScanOptionsPanel from "@/components/scan/ScanOptionsPanel";
+import ScanProgress from "@/components/scan/ScanProgress";
+import ImportScanDialog from "@/components/scan/ImportScanDialog";
+import TargetInput from "@/components/scan/TargetInput";
+import StageRunResults from "@/components/pipeline/StageRunResults";
+import { Form } from "@/components/ui/form";
+import ProfileManagerDialog from "@/components/profiles/ProfileManagerDialog";
+import AssessmentPanel from "@/components/pipeline/AssessmentPanel";
+import AuthorizationDialog from "@/components/scope/AuthorizationDialog";
+import { useBackend } from "@/contexts/backend-context";
+import { useScope } from "@/contexts/scope-context";
+import { useScanJob } from "@/hooks/use-scan-job";
+import { useBulkScan } from "@/hooks/use-bulk-scan";
+import { useScanProfiles } from "@/hooks/use-scan-profiles";
+import { ToastAction } from "@/components/ui/toast";
+import { Switch } from "@/components/ui/switch";
+import { DEMO_NOTICE } from "@/lib/demo-data";
+import { buildScanReport, type ScanInfo } from "@/lib/pdf-report";
+import type { PipelineStage } from "@/lib/pipeline";
+import type { ScanProfile } from "@/lib/profiles";
+import { expandTargets, normalizeTarget, targetWarnings } from "@/lib/targets";
+import { getScanRecord, recordScan, scanInfoFromRecord } from "@/lib/scan-history";
+import type { ImportFormat } from "@/lib/scan-import";
+import { normalizeResults } from "@/lib/scan-model";
+import { requireScanner, type ImportedScan } from "@/scanners";
+import { ScanNetworkError, ScanTimeoutError, describeScanError, type ScanResult, type ScanType } from "@/lib/scan-client";
 
 const Index = () => {
   const [target, setTarget] = useState("");
-  const [scanType, setScanType] = useState("nmap");
+  const [scanType, setScanType] = useState<ScanType>("nmap");
   const [isScanning, setIsScanning] = useState(false);
   const [scanResults, setScanResults] = useState<ScanResult[]>([]);
-  const [lastScanInfo, setLastScanInfo] = useState<{type: string, target: string, timestamp: Date} | null>(null);
-  const [backendConnected, setBackendConnected] = useState(false);
+  const [lastScanInfo, setLastScanInfo] = useState<ScanInfo | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const { backendConnected, setBackendConnected, demoMode, setDemoMode } = useBackend();
+  const { progress, run: runJob, cancel: cancelJob } = useScanJob();
   const { toast } = useToast();
+  const scanner = requireScanner(scanType);
+  const [showOptions, setShowOptions] = useState(false);
+  // The resolver reads the scanner through a ref so it always validates
+  // against the currently selected tool's schema.
+  const scanTypeRef = useRef(scanType);
+  scanTypeRef.current = scanType;
+  const optionsForm = useForm<Record<string, unknown>>({
+    resolver: (values, context, options) =>
+      zodResolver(requireScanner(scanTypeRef.current).optionsSchema)(values, context, options),
+    defaultValues: scanner.defaultOptions,
+  });
 
-  const handleScan = async () => {
-    if (!target.trim()) return;
-    
+  const profilesApi = useScanProfiles();
+  const [selectedProfileId, setSelectedProfileId] = useState(`builtin:${scanType}`);
+  const [showProfileManager, setShowProfileManager] = useState(false);
+  const [mode, setMode] = useState<'single' | 'assessment'>('single');
+  const [isAssessing, setIsAssessing] = useState(false);
+  const expansion = useMemo(() => expandTargets(target), [target]);
+  const warnings = useMemo(
+    () => [...new Set(expansion.targets.flatMap((candidate) => targetWarnings(candidate, scanner)))],
+    [expansion, scanner]
+  );
+  const { checkTargets, checkSafety, getAuthorization } = useScope();
+  // Demo scans never reach a target, so only live scans are held to the scope and safeguards.
+  const scopeErrors = useMemo(
+    () => (demoMode ? [] : checkTargets(expansion.targets)),
+    [demoMode, checkTargets, expansion]
+  );
+  const safetyFlags = useMemo(
+    () => (demoMode ? [] : checkSafety(expansion.targets)),
+    [demoMode, checkSafety, expansion]
+  );
+  const [safetyOverride, setSafetyOverride] = useState(false);
+  // An override covers the targets it was given for, not whatever is typed next.
+  useEffect(() => {
+    setSafetyOverride(false);
+  }, [target]);
+  const canScan =
+    expansion.targets.length > 0 &&
+    expansion.errors.length === 0 &&
+    scopeErrors.length === 0 &&
+    (safetyFlags.length === 0 || safetyOverride);
+  const [pendingScan, setPendingScan] = useState<(() => void) | null>(null);
+
+  /** Runs `scan` once the engagement has been acknowledged, asking for it first if needed. */
+  const withAuthorization = (scan: () => void) => {
+    if (demoMode || getAuthorization()) scan();
+    else setPendingScan(() => scan);
+  };
+  const bulk = useBulkScan();
+  const [bulkInfo, setBulkInfo] = useState<ScanInfo | null>(null);
+  const [resultsKind, setResultsKind] = useState<'single' | 'bulk' | 'import'>('single');
+  const [showImport, setShowImport] = useState(false);
+  const [importStages, setImportStages] = useState<PipelineStage[]>([]);
+  const [importInfo, setImportInfo] = useState<ScanInfo | null>(null);
+  const isBusy = isScanning || isAssessing || bulk.isRunning;
+  const selectedProfile = profilesApi.profiles.find((profile) => profile.id === selectedProfileId);
+
+  const applyProfile = (profile: ScanProfile) => {
+    setSelectedProfileId(profile.id);
+    setScanType(profile.scanType);
+    optionsForm.reset({ ...requireScanner(profile.scanType).defaultOptions, ...profile.options });
+  };
+
+  // Fall back to the scanner's defaults when the selected profile is deleted.
+  useEffect(() => {
+    if (!selectedProfile) setSelectedProfileId(`builtin:${scanType}`);
+  }, [selectedProfile, scanType]);
+  // The history page reopens a saved scan through `?scan=<id>`.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const reopenId = searchParams.get('scan');
+  useEffect(() => {
+    if (!reopenId) return;
+    setSearchParams({}, { replace: true });
+    getScanRecord(reopenId)
+      .then((record) => {
+        if (!record) {
+          toast({ title: "Scan not found", description: "It may have been deleted from the history", variant: "destructive" });
+          return;
+        }
+        setMode('single');
+        setResultsKind('single');
+        setScanError(record.results.length === 0 ? `This ${record.status} scan has no saved results` : null);
+        setScanResults(record.results);
+        setLastScanInfo(scanInfoFromRecord(record));
+      })
+      .catch((error) => {
+        toast({ title: "Could not open scan", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+      });
+  }, [reopenId, setSearchParams, toast]);
+
+  // Render with the scanner that produced the results, not the one currently picked.
+  const ResultsView = requireScanner(lastScanInfo?.type ?? scanType).ResultsView;
+
+  const handleScan = () => {
+    if (!canScan) return;
+    // Invalid options block the scan; open the panel so the errors are visible.
+    withAuthorization(() =>
+      optionsForm.handleSubmit(expansion.targets.length > 1 ? startBulkScan : startScan, () => setShowOptions(true))()
+    );
+  };
+  // The retry toast outlives the render it was created in; the ref reaches the current form.
+  const handleScanRef = useRef(handleScan);
+  handleScanRef.current = handleScan;
+
+  const startBulkScan = async (options: Record<string, unknown>) => {
+    const targets = expansion.targets;
+    setResultsKind('bulk');
+    setBulkInfo(null);
+
+    const finished = await bulk.start(targets, { scanType, options });
+    const failed = finished.filter((stage) => stage.status === 'failed').length;
+    const stopped = finished.some((stage) => stage.status === 'cancelled' || stage.status === 'skipped');
+    setBulkInfo({
+      type: scanType,
+      target: `${targets.length} targets`,
+      timestamp: new Date(),
+      status: stopped ? 'cancelled' : failed > 0 ? 'failed' : 'completed',
+      demo: demoMode,
+      options,
+      profileName: selectedProfile?.builtIn ? undefined : selectedProfile?.name,
+      authorization: demoMode ? undefined : getAuthorization()
+    });
+
+    const total = finished.reduce((sum, stage) => sum + stage.results.length, 0);
+    toast({
+      title: stopped ? "Bulk scan stopped" : "Bulk scan completed",
+      description: `${finished.length - failed} of ${targets.length} targets scanned, ${total} results${failed > 0 ? `, ${failed} failed` : ''}${demoMode ? ' (demo data)' : ''}`,
+      variant: failed > 0 && failed === finished.length ? "destructive" : undefined
+    });
+  };
+
+  /** Shows a finished scan in the results view and keeps it in the history. */
+  const finishScan = (info: ScanInfo, results: ScanResult[], startedAt: Date) => {
+    setLastScanInfo(info);
+    recordScan(info, results, startedAt);
+  };
+
+  /** Shows scans read from a report file and keeps each host in the history. */
+  const handleImported = ({ scanner: importedScanner }: ImportFormat, fileName: string, scans: ImportedScan[]) => {
+    const infos = scans.map(({ target: importedTarget, finishedAt }): ScanInfo => ({
+      type: importedScanner.id,
+      target: importedTarget,
+      timestamp: finishedAt ?? new Date(),
+      status: 'completed',
+      demo: false,
+      importedFrom: fileName,
+    }));
+    scans.forEach((scan, index) => recordScan(infos[index], scan.results, scan.startedAt ?? infos[index].timestamp));
+    setMode('single');
+    setScanError(null);
+
+    if (scans.length === 1) {
+      setResultsKind('single');
+      setScanResults(scans[0].results);
+      setLastScanInfo(infos[0]);
+    } else {
+      setResultsKind('import');
+      setImportStages(scans.map((scan, index) => ({
+        id: `import-${index}`,
+        scanType: importedScanner.id,
+        target: scan.target,
+        options: {},
+        status: 'completed',
+        results: scan.results,
+      })));
+      setImportInfo({ ...infos[0], target: `${scans.length} hosts` });
+    }
+
+    const total = scans.reduce((sum, scan) => sum + scan.results.length, 0);
+    toast({
+      title: "Import completed",
+      description: `Read ${scans.length} ${scans.length === 1 ? 'host' : 'hosts'} and ${total} results from ${fileName}`,
+    });
+  };
+
+  const startScan = async (options: Record<string, unknown>) => {
+    const scanTarget = normalizeTarget(expansion.targets[0], scanner.category);
+    const startedAt = new Date();
+    setResultsKind('single');
     setIsScanning(true);
     setScanResults([]);
+    setScanError(null);
     
-    try {
-      // Try to connect to backend with timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-      
-      const response = await fetch(`${BACKEND_URL}/scan`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          target: target.trim(),
-          type: scanType
-        }),
-        signal: controller.signal
+    if (demoMode) {
+      const demoResults = scanner.demoResults();
+      setScanResults(demoResults);
+      finishScan({
+        type: scanType,
+        target: scanTarget,
+        timestamp: new Date(),
+        status: 'completed',
+        demo: true,
+        options,
+        profileName: selectedProfile?.builtIn ? undefined : selectedProfile?.name
+      }, demoResults, startedAt);
+      toast({
+        title: "Demo scan completed",
+        description: `Generated ${demoResults.length} sample results. Nothing was scanned.`,
       });
+      setIsScanning(false);
+      return;
+    }
+    
+    try {
+      const { job, results } = await runJob(
+        { target: scanTarget, type: scanType, options },
+        { onResults: (newResults) => setScanResults((previous) => [...previous, ...newResults]) }
+      );
       
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      setScanResults(data.result || []);
+      setScanResults(results);
       setBackendConnected(true);
-      setLastScanInfo({
+      finishScan({
         type: scanType,
-        target: target.trim(),
-        timestamp: new Date()
-      });
+        target: scanTarget,
+        timestamp: new Date(),
+        status: job.status,
+        demo: false,
+        options,
+        profileName: selectedProfile?.builtIn ? undefined : selectedProfile?.name,
+        authorization: getAuthorization()
+      }, results, startedAt);
       
-      toast({
-        title: "Scan completed",
-        description: `Found ${data.result?.length || 0} results`,
-      });
+      if (job.status === 'cancelled') {
+        toast({
+          title: "Scan cancelled",
+          description: `Kept ${results.length} partial results`,
+        });
+      } else if (job.status === 'failed') {
+        setScanError(job.error ?? `Scan stopped after ${results.length} results`);
+        toast({
+          title: "Scan failed",
+          description: job.error ?? `Scan stopped after ${results.length} results`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Scan completed",
+          description: `Found ${results.length} results`,
+        });
+      }
       
     } catch (error) {
-      console.error('Scan failed:', error);
+      const message = describeScanError(error);
+      setScanError(message);
+      if (error instanceof ScanNetworkError || error instanceof ScanTimeoutError) {
+        setBackendConnected(false);
+      }
+      finishScan({
+        type: scanType,
+        target: scanTarget,
+        timestamp: new Date(),
+        status: 'failed',
+        demo: false,
+        options,
+        profileName: selectedProfile?.builtIn ? undefined : selectedProfile?.name,
+        authorization: getAuthorization()
+      }, [], startedAt);
       
-      // Show warning about demo mode
       toast({
-        title: "Backend unavailable",
-        description: "Using demo data. Connect your backend for real scans.",
-        variant: "destructive"
-      });
-      
-      // Use demo data as fallback
-      const demoResults = generateDemoResults(scanType);
-      setScanResults(demoResults);
-      setBackendConnected(false);
-      setLastScanInfo({
-        type: scanType,
-        target: target.trim(),
-        timestamp: new Date()
+        title: "Scan failed",
+        description: message,
+        variant: "destructive",
+        action: <ToastAction altText="Retry scan" onClick={() => handleScanRef.current()}>Retry</ToastAction>
       });
     } finally {
       setIsScanning(false);
     }
   };
 
-  const generateDemoResults = (type: string): ScanResult[] => {
-    switch (type) {
-      case 'nmap':
-        return [
-          { port: '22', state: 'open', service: 'ssh' },
-          { port: '80', state: 'open', service: 'http' },
-          { port: '443', state: 'open', service: 'https' },
-          { port: '3306', state: 'filtered', service: 'mysql' }
-        ];
-      case 'nuclei':
-        return [
-          { 
-            title: 'SSL Certificate Expiry Warning',
-            severity: 'medium', 
-            url: 'https://example.com',
-            description: 'SSL certificate expires within 30 days'
-          },
-          { 
-            title: 'Directory Listing Enabled',
-            severity: 'low', 
-            url: 'https://example.com/assets/',
-            description: 'Directory listing is enabled and may expose sensitive files'
-          },
-          { 
-            title: 'Missing Security Headers',
-            severity: 'medium', 
-            url: 'https://example.com',
-            description: 'Missing X-Frame-Options header'
-          }
-        ];
-      case 'nikto':
-        return [
-          { 
-            description: 'Server leaks inodes via ETags, header found with file /, inode: 12345, size: 4096, mtime: Mon Dec 25 10:23:45 2023',
-            endpoint: '/'
-          },
-          { 
-            description: 'The anti-clickjacking X-Frame-Options header is not present.',
-            endpoint: '/'
-          },
-          { 
-            description: 'Web server returns a valid response with junk HTTP methods, this may cause false positives.',
-            endpoint: '/'
-          }
-        ];
-      default:
-        return [];
-    }
-  };
+  // Demo exports carry the notice in the data itself, so a file that gets
+  // passed around can never be mistaken for a real scan.
+  const exportPayload = () =>
+    lastScanInfo?.demo
+      ? { demo: true, notice: DEMO_NOTICE, results: scanResults }
+      : scanResults;
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -155,12 +329,12 @@ const Index = () => {
   };
 
   const downloadResults = () => {
-    const dataStr = JSON.stringify(scanResults, null, 2);
+    const dataStr = JSON.stringify(exportPayload(), null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `scan-results-${scanType}-${Date.now()}.json`;
+    link.download = `${lastScanInfo?.demo ? 'demo-' : ''}scan-results-${lastScanInfo?.type ?? scanType}-${Date.now()}.json`;
     link.click();
     URL.revokeObjectURL(url);
     
@@ -180,75 +354,13 @@ const Index = () => {
       return;
     }
 
-    const pdf = new jsPDF();
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const margin = 20;
-    let yPosition = margin;
-
-    // Add title
-    pdf.setFontSize(20);
-    pdf.text('SecureScan Report', margin, yPosition);
-    yPosition += 15;
-
-    // Add scan info
-    pdf.setFontSize(12);
-    pdf.text(`Target: ${lastScanInfo.target}`, margin, yPosition);
-    yPosition += 10;
-    pdf.text(`Scan Type: ${lastScanInfo.type.toUpperCase()}`, margin, yPosition);
-    yPosition += 10;
-    pdf.text(`Timestamp: ${lastScanInfo.timestamp.toLocaleString()}`, margin, yPosition);
-    yPosition += 10;
-    pdf.text(`Backend Status: ${backendConnected ? 'Connected' : 'Demo Mode'}`, margin, yPosition);
-    yPosition += 20;
-
-    // Add results
-    pdf.setFontSize(16);
-    pdf.text('Scan Results:', margin, yPosition);
-    yPosition += 15;
-
-    pdf.setFontSize(10);
-    scanResults.forEach((result, index) => {
-      // Check if we need a new page
-      if (yPosition > 250) {
-        pdf.addPage();
-        yPosition = margin;
-      }
-
-      pdf.text(`${index + 1}.`, margin, yPosition);
-      
-      if (scanType === 'nmap') {
-        pdf.text(`Port: ${result.port || 'N/A'}`, margin + 10, yPosition);
-        yPosition += 8;
-        pdf.text(`State: ${result.state || 'N/A'}`, margin + 10, yPosition);
-        yPosition += 8;
-        pdf.text(`Service: ${result.service || 'N/A'}`, margin + 10, yPosition);
-      } else if (scanType === 'nuclei') {
-        pdf.text(`Title: ${result.title || 'N/A'}`, margin + 10, yPosition);
-        yPosition += 8;
-        pdf.text(`Severity: ${result.severity || 'N/A'}`, margin + 10, yPosition);
-        yPosition += 8;
-        pdf.text(`URL: ${result.url || 'N/A'}`, margin + 10, yPosition);
-        yPosition += 8;
-        // Handle long descriptions
-        const description = result.description || 'N/A';
-        const splitDescription = pdf.splitTextToSize(description, pageWidth - margin * 2 - 10);
-        pdf.text(splitDescription, margin + 10, yPosition);
-        yPosition += splitDescription.length * 5;
-      } else if (scanType === 'nikto') {
-        pdf.text(`Endpoint: ${result.endpoint || 'N/A'}`, margin + 10, yPosition);
-        yPosition += 8;
-        // Handle long descriptions
-        const description = result.description || 'N/A';
-        const splitDescription = pdf.splitTextToSize(description, pageWidth - margin * 2 - 10);
-        pdf.text(splitDescription, margin + 10, yPosition);
-        yPosition += splitDescription.length * 5;
-      }
-      
-      yPosition += 10;
+    const pdf = buildScanReport({
+      info: lastScanInfo,
+      sections: [normalizeResults(requireScanner(lastScanInfo.type), scanResults)]
     });
 
     // Save the PDF
-    const fileName = `securescan-report-${scanType}-${lastScanInfo.target}-${Date.now()}.pdf`;
+    const fileName = `${lastScanInfo.demo ? 'demo-' : ''}securescan-report-${lastScanInfo.type}-${lastScanInfo.target}-${Date.now()}.pdf`;
     pdf.save(fileName);
     
     toast({
@@ -257,313 +369,372 @@ const Index = () => {
     });
   };
 
-  const getSeverityColor = (severity: string) => {
-    switch (severity) {
-      case 'critical': return 'bg-red-500/20 text-red-300 border-red-500/30';
-      case 'high': return 'bg-orange-500/20 text-orange-300 border-orange-500/30';
-      case 'medium': return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
-      case 'low': return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
-      default: return 'bg-gray-500/20 text-gray-300 border-gray-500/30';
-    }
-  };
-
-  const getPortStateColor = (state: string) => {
-    switch (state) {
-      case 'open': return 'text-green-400';
-      case 'closed': return 'text-red-400';
-      case 'filtered': return 'text-yellow-400';
-      default: return 'text-gray-400';
-    }
-  };
-
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white relative overflow-hidden">
-      {/* Animated background elements */}
-      <div className="absolute inset-0 w-full h-full overflow-hidden">
-        <div className="absolute top-0 left-1/4 w-96 h-96 bg-violet-500/10 rounded-full mix-blend-normal filter blur-[128px] animate-pulse" />
-        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-indigo-500/10 rounded-full mix-blend-normal filter blur-[128px] animate-pulse delay-700" />
-        <div className="absolute top-1/4 right-1/3 w-64 h-64 bg-fuchsia-500/10 rounded-full mix-blend-normal filter blur-[96px] animate-pulse delay-1000" />
-      </div>
-
-      <div className="relative z-10 container mx-auto px-6 py-8">
-        {/* Header */}
-        <motion.div 
-          className="text-center mb-12"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6 }}
-        >
-          <div className="flex items-center justify-center gap-3 mb-4">
-            <div className="p-3 bg-white/10 rounded-xl backdrop-blur-sm">
-              <Shield className="w-8 h-8 text-violet-400" />
-            </div>
-            <h1 className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-violet-400">
-              SecureScan
-            </h1>
+    <AppShell>
+      {/* Header */}
+      <motion.div 
+        className="text-center mb-12"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <div className="p-3 bg-white/10 rounded-xl backdrop-blur-sm">
+            <Shield className="w-8 h-8 text-violet-400" />
           </div>
-          <p className="text-white/60 text-lg max-w-2xl mx-auto">
-            Advanced security scanning platform powered by Nmap, Nuclei, and Nikto
-          </p>
-          {/* Backend status indicator */}
-          <div className="mt-4 flex items-center justify-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${backendConnected ? 'bg-green-400' : 'bg-yellow-400'}`} />
+          <h1 className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-violet-400">
+            SecureScan
+          </h1>
+        </div>
+        <p className="text-white/60 text-lg max-w-2xl mx-auto">
+          Advanced security scanning platform powered by Nmap, Nuclei, and Nikto
+        </p>
+        {/* Backend status indicator */}
+        <div className="mt-4 flex items-center justify-center gap-6">
+          <div className="flex items-center gap-2">
+            <div className={`w-2 h-2 rounded-full ${demoMode ? 'bg-amber-400' : backendConnected ? 'bg-green-400' : 'bg-red-400'}`} />
             <span className="text-sm text-white/60">
-              {backendConnected ? 'Backend Connected' : 'Demo Mode'}
+              {demoMode ? 'Demo Mode' : backendConnected ? 'Backend Connected' : 'Backend Unreachable'}
             </span>
           </div>
-        </motion.div>
-
-        {/* Scan Input Form */}
-        <motion.div 
-          className="max-w-4xl mx-auto mb-8"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6, delay: 0.2 }}
-        >
-          <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              {/* Target Input */}
-              <div className="lg:col-span-2">
-                <label htmlFor="targetInput" className="block text-sm font-medium text-white/80 mb-3">
-                  Target Domain or IP Address
-                </label>
-                <input
-                  id="targetInput"
-                  type="text"
-                  value={target}
-                  onChange={(e) => setTarget(e.target.value)}
-                  placeholder="e.g. example.com or 192.168.0.1"
-                  className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all"
-                  disabled={isScanning}
-                />
-              </div>
+          <label htmlFor="demoMode" className="flex items-center gap-2 text-sm text-white/60 cursor-pointer">
+            <Switch
+              id="demoMode"
+              checked={demoMode}
+              onCheckedChange={setDemoMode}
+              disabled={isBusy}
+              className="data-[state=checked]:bg-amber-500 data-[state=unchecked]:bg-white/10"
+            />
+            Demo mode
+          </label>
+        </div>
+      </motion.div>
+
+      {/* Scan Input Form */}
+      <motion.div 
+        className="max-w-4xl mx-auto mb-8"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, delay: 0.2 }}
+      >
+        <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <AuthorizationDialog
+            open={pendingScan !== null}
+            onOpenChange={(open) => !open && setPendingScan(null)}
+            onAuthorized={() => pendingScan?.()}
+          />
 
-              {/* Scan Type Selection */}
+          <ImportScanDialog open={showImport} onOpenChange={setShowImport} onImported={handleImported} />
+
+          {/* Mode Toggle */}
+          <div className="mb-6 flex items-center justify-between gap-3">
+            <div className="inline-flex p-1 bg-white/5 rounded-xl border border-white/10" role="tablist">
+              {([['single', 'Single scan'], ['assessment', 'Full assessment']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="tab"
+                  aria-selected={mode === value}
+                  onClick={() => setMode(value)}
+                  disabled={isBusy}
+                  className={`px-4 py-1.5 rounded-lg text-sm transition-all ${mode === value ? 'bg-violet-600 text-white' : 'text-white/60 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <motion.button
+              type="button"
+              onClick={() => setShowImport(true)}
+              disabled={isBusy}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-4 py-2 rounded-xl text-sm flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white border border-white/10 transition-all"
+            >
+              <FileUp className="w-4 h-4" />
+              Import
+            </motion.button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Target Input */}
+            <div className={mode === 'single' ? 'lg:col-span-2' : 'lg:col-span-3'}>
+              <TargetInput
+                value={target}
+                onChange={setTarget}
+                expansion={expansion}
+                scopeErrors={scopeErrors}
+                safetyFlags={safetyFlags}
+                override={safetyOverride}
+                onOverrideChange={setSafetyOverride}
+                warnings={mode === 'single' ? warnings : []}
+                allowMultiple={mode === 'single'}
+                disabled={isBusy}
+              />
+            </div>
+
+            {/* Scan Profile Selection */}
+            {mode === 'single' && (
               <div>
-                <label htmlFor="scanType" className="block text-sm font-medium text-white/80 mb-3">
-                  Scan Type
-                </label>
+                <div className="flex items-center justify-between mb-3">
+                  <label htmlFor="scanProfile" className="block text-sm font-medium text-white/80">
+                    Scan Profile
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setShowProfileManager(true)}
+                    className="text-xs text-violet-300 hover:text-violet-200 transition-colors"
+                    disabled={isBusy}
+                  >
+                    Manage
+                  </button>
+                </div>
                 <select
-                  id="scanType"
-                  value={scanType}
-                  onChange={(e) => setScanType(e.target.value)}
+                  id="scanProfile"
+                  value={selectedProfileId}
+                  onChange={(e) => {
+                    const profile = profilesApi.profiles.find((candidate) => candidate.id === e.target.value);
+                    if (profile) applyProfile(profile);
+                  }}
                   className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all"
-                  disabled={isScanning}
+                  disabled={isBusy}
                 >
-                  <option value="nmap">Port Scan (Nmap)</option>
-                  <option value="nuclei">Web Vulnerability (Nuclei)</option>
-                  <option value="nikto">Server Misconfig (Nikto)</option>
+                  <optgroup label="Scanners">
+                    {profilesApi.profiles.filter((profile) => profile.builtIn).map((profile) => (
+                      <option key={profile.id} value={profile.id}>{requireScanner(profile.scanType).label}</option>
+                    ))}
+                  </optgroup>
+                  {profilesApi.customProfiles.length > 0 && (
+                    <optgroup label="Saved Profiles">
+                      {profilesApi.customProfiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
                 </select>
               </div>
-            </div>
-
-            {/* Scan Button */}
-            <div className="mt-6 flex justify-center">
-              <motion.button
-                id="scanButton"
-                onClick={handleScan}
-                disabled={!target.trim() || isScanning}
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                className={`
-                  px-8 py-3 rounded-xl font-medium text-sm transition-all flex items-center gap-2
-                  ${target.trim() && !isScanning
-                    ? 'bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white shadow-lg shadow-violet-500/25'
-                    : 'bg-white/5 text-white/40 cursor-not-allowed'
-                  }
-                `}
-              >
-                {isScanning ? (
-                  <>
-                    <motion.div
-                      animate={{ rotate: 360 }}
-                      transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
-                    >
-                      <Zap className="w-4 h-4" />
-                    </motion.div>
-                    Scanning...
-                  </>
-                ) : (
-                  <>
-                    <Shield className="w-4 h-4" />
-                    Start Scan
-                  </>
-                )}
-              </motion.button>
-            </div>
+            )}
           </div>
-        </motion.div>
-
-        {/* Scan Results Section */}
-        <AnimatePresence>
-          {(scanResults.length > 0 || isScanning) && (
-            <motion.div
-              className="max-w-6xl mx-auto"
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              transition={{ duration: 0.6 }}
-            >
-              <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
-                {/* Results Header */}
-                <div className="flex items-center justify-between mb-6">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-white/10 rounded-lg">
-                      <Eye className="w-5 h-5 text-violet-400" />
-                    </div>
-                    <div>
-                      <h2 className="text-xl font-semibold text-white">Scan Results</h2>
-                      {lastScanInfo && (
-                        <p className="text-sm text-white/60">
-                          {lastScanInfo.type.toUpperCase()} scan of {lastScanInfo.target} at {lastScanInfo.timestamp.toLocaleTimeString()}
-                        </p>
-                      )}
-                    </div>
-                  </div>
-                  
-                  {scanResults.length > 0 && (
-                    <div className="flex gap-2">
-                      <motion.button
-                        onClick={() => copyToClipboard(JSON.stringify(scanResults, null, 2))}
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        className="p-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white transition-all"
-                        title="Copy to clipboard"
-                      >
-                        <Copy className="w-4 h-4" />
-                      </motion.button>
-                      <motion.button
-                        onClick={downloadResults}
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        className="p-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white transition-all"
-                        title="Download JSON"
-                      >
-                        <Download className="w-4 h-4" />
-                      </motion.button>
-                      <motion.button
-                        onClick={downloadPDF}
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        className="p-2 bg-gradient-to-r from-red-600 to-pink-600 hover:from-red-500 hover:to-pink-500 rounded-lg text-white transition-all shadow-lg shadow-red-500/25"
-                        title="Download PDF Report"
+
+          {mode === 'single' ? (
+            <>
+              {/* Scanner Options */}
+              <Form {...optionsForm}>
+                <ScanOptionsPanel scanner={scanner} open={showOptions} onOpenChange={setShowOptions} disabled={isBusy} />
+              </Form>
+              <ProfileManagerDialog
+                open={showProfileManager}
+                onOpenChange={setShowProfileManager}
+                profilesApi={profilesApi}
+                current={{ scanType, options: optionsForm.getValues() }}
+                onUseProfile={applyProfile}
+              />
+
+              {/* Scan Button */}
+              <div className="mt-6 flex justify-center gap-3">
+                <motion.button
+                  id="scanButton"
+                  onClick={handleScan}
+                  disabled={!canScan || isBusy}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className={`
+                    px-8 py-3 rounded-xl font-medium text-sm transition-all flex items-center gap-2
+                    ${canScan && !isBusy
+                      ? 'bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white shadow-lg shadow-violet-500/25'
+                      : 'bg-white/5 text-white/40 cursor-not-allowed'
+                    }
+                  `}
+                >
+                  {isBusy ? (
+                    <>
+                      <motion.div
+                        animate={{ rotate: 360 }}
+                        transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
                       >
-                        <FileText className="w-4 h-4" />
-                      </motion.button>
-                    </div>
+                        <Zap className="w-4 h-4" />
+                      </motion.div>
+                      Scanning...
+                    </>
+                  ) : (
+                    <>
+                      <Shield className="w-4 h-4" />
+                      {expansion.targets.length > 1 ? `Scan ${expansion.targets.length} Targets` : 'Start Scan'}
+                    </>
                   )}
-                </div>
+                </motion.button>
+                {isBusy && (
+                  <motion.button
+                    id="cancelButton"
+                    onClick={bulk.isRunning ? bulk.stop : cancelJob}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    className="px-6 py-3 rounded-xl font-medium text-sm transition-all flex items-center gap-2 bg-white/5 hover:bg-red-500/20 text-white/70 hover:text-red-300 border border-white/10 hover:border-red-500/30"
+                  >
+                    <Square className="w-4 h-4" />
+                    Stop
+                  </motion.button>
+                )}
+              </div>
+            </>
+          ) : (
+            <AssessmentPanel target={canScan && expansion.targets.length === 1 ? expansion.targets[0] : ''} profilesApi={profilesApi} authorize={withAuthorization} onRunningChange={setIsAssessing} />
+          )}
+        </div>
+      </motion.div>
 
-                {/* Loading State */}
-                {isScanning && (
-                  <div className="text-center py-12">
-                    <motion.div
-                      animate={{ rotate: 360 }}
-                      transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
-                      className="inline-block mb-4"
+      {/* Scan Results Section */}
+      <AnimatePresence>
+        {mode === 'single' && resultsKind === 'single' && (scanResults.length > 0 || isScanning || scanError) && (
+          <motion.div
+            className="max-w-6xl mx-auto"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            transition={{ duration: 0.6 }}
+          >
+            <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+              {/* Results Header */}
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-white/10 rounded-lg">
+                    <Eye className="w-5 h-5 text-violet-400" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-white">Scan Results</h2>
+                    {lastScanInfo && (
+                      <p className="text-sm text-white/60">
+                        {lastScanInfo.type.toUpperCase()} scan of {lastScanInfo.target} at {lastScanInfo.timestamp.toLocaleString()}
+                        {lastScanInfo.status !== 'completed' && (
+                          <span className={`ml-2 px-2 py-0.5 rounded-md text-xs font-medium border ${lastScanInfo.status === 'cancelled' ? 'bg-gray-500/20 text-gray-300 border-gray-500/30' : 'bg-red-500/20 text-red-300 border-red-500/30'}`}>
+                            {lastScanInfo.status.toUpperCase()}
+                          </span>
+                        )}
+                        {lastScanInfo.demo && (
+                          <span className="ml-2 px-2 py-0.5 rounded-md text-xs font-medium border bg-amber-500/20 text-amber-300 border-amber-500/30">
+                            DEMO DATA
+                          </span>
+                        )}
+                        {lastScanInfo.importedFrom && (
+                          <span title={lastScanInfo.importedFrom} className="ml-2 px-2 py-0.5 rounded-md text-xs font-medium border bg-sky-500/20 text-sky-300 border-sky-500/30">
+                            IMPORTED
+                          </span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              
+                {scanResults.length > 0 && (
+                  <div className="flex gap-2">
+                    <motion.button
+                      onClick={() => copyToClipboard(JSON.stringify(exportPayload(), null, 2))}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      className="p-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white transition-all"
+                      title="Copy to clipboard"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </motion.button>
+                    <motion.button
+                      onClick={downloadResults}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      className="p-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white transition-all"
+                      title="Download JSON"
                     >
-                      <Zap className="w-8 h-8 text-violet-400" />
-                    </motion.div>
-                    <p className="text-white/60">Scanning target for security vulnerabilities...</p>
+                      <Download className="w-4 h-4" />
+                    </motion.button>
+                    <motion.button
+                      onClick={downloadPDF}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      className="p-2 bg-gradient-to-r from-red-600 to-pink-600 hover:from-red-500 hover:to-pink-500 rounded-lg text-white transition-all shadow-lg shadow-red-500/25"
+                      title="Download PDF Report"
+                    >
+                      <FileText className="w-4 h-4" />
+                    </motion.button>
                   </div>
                 )}
+              </div>
 
-                {/* Results Display */}
-                <div id="resultOutput">
-                  {scanResults.length > 0 && (
-                    <div className="space-y-4">
-                      {/* Nmap Results */}
-                      {scanType === 'nmap' && (
-                        <div className="overflow-x-auto">
-                          <table className="w-full border-collapse">
-                            <thead>
-                              <tr className="border-b border-white/10">
-                                <th className="text-left py-3 px-4 text-white/80 font-medium">Port</th>
-                                <th className="text-left py-3 px-4 text-white/80 font-medium">State</th>
-                                <th className="text-left py-3 px-4 text-white/80 font-medium">Service</th>
-                              </tr>
-                            </thead>
-                            <tbody>
-                              {scanResults.map((result, index) => (
-                                <motion.tr
-                                  key={index}
-                                  initial={{ opacity: 0, x: -20 }}
-                                  animate={{ opacity: 1, x: 0 }}
-                                  transition={{ delay: index * 0.1 }}
-                                  className="border-b border-white/5 hover:bg-white/5 transition-colors"
-                                >
-                                  <td className="py-3 px-4 text-white font-mono">{result.port}</td>
-                                  <td className={`py-3 px-4 font-medium ${getPortStateColor(result.state || '')}`}>
-                                    {result.state}
-                                  </td>
-                                  <td className="py-3 px-4 text-white/70">{result.service}</td>
-                                </motion.tr>
-                              ))}
-                            </tbody>
-                          </table>
-                        </div>
-                      )}
-
-                      {/* Nuclei Results */}
-                      {scanType === 'nuclei' && (
-                        <div className="space-y-3">
-                          {scanResults.map((result, index) => (
-                            <motion.div
-                              key={index}
-                              initial={{ opacity: 0, y: 20 }}
-                              animate={{ opacity: 1, y: 0 }}
-                              transition={{ delay: index * 0.1 }}
-                              className="p-4 bg-white/5 rounded-xl border border-white/10"
-                            >
-                              <div className="flex items-start gap-3">
-                                <AlertTriangle className="w-5 h-5 text-yellow-400 mt-0.5 flex-shrink-0" />
-                                <div className="flex-1">
-                                  <div className="flex items-center gap-2 mb-2">
-                                    <h3 className="font-medium text-white">{result.title}</h3>
-                                    <span className={`px-2 py-1 rounded-md text-xs font-medium border ${getSeverityColor(result.severity || '')}`}>
-                                      {result.severity?.toUpperCase()}
-                                    </span>
-                                  </div>
-                                  <p className="text-white/70 text-sm mb-2">{result.description}</p>
-                                  <p className="text-violet-400 text-sm font-mono">{result.url}</p>
-                                </div>
-                              </div>
-                            </motion.div>
-                          ))}
-                        </div>
-                      )}
-
-                      {/* Nikto Results */}
-                      {scanType === 'nikto' && (
-                        <div className="space-y-3">
-                          {scanResults.map((result, index) => (
-                            <motion.div
-                              key={index}
-                              initial={{ opacity: 0, y: 20 }}
-                              animate={{ opacity: 1, y: 0 }}
-                              transition={{ delay: index * 0.1 }}
-                              className="p-4 bg-white/5 rounded-xl border border-white/10"
-                            >
-                              <div className="flex items-start gap-3">
-                                <Server className="w-5 h-5 text-blue-400 mt-0.5 flex-shrink-0" />
-                                <div className="flex-1">
-                                  <p className="text-white/80 text-sm mb-2">{result.description}</p>
-                                  <p className="text-violet-400 text-sm font-mono">{result.endpoint}</p>
-                                </div>
-                              </div>
-                            </motion.div>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  )}
+              {/* Loading State */}
+              {isScanning && <ScanProgress progress={progress} />}
+
+              {/* Error State */}
+              {scanError && !isScanning && (
+                <div className="mb-6 p-4 bg-red-500/10 rounded-xl border border-red-500/30 flex items-start gap-3">
+                  <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="font-medium text-red-300">Scan failed</p>
+                    <p className="text-sm text-white/70">{scanError}</p>
+                  </div>
+                  <motion.button
+                    onClick={handleScan}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-white/5 hover:bg-white/10 text-white/80 hover:text-white transition-all"
+                  >
+                    Retry
+                  </motion.button>
                 </div>
+              )}
+
+              {/* Results Display */}
+              <div id="resultOutput">
+                {scanResults.length > 0 && (
+                  <div className="space-y-4">
+                    <ResultsView results={scanResults} />
+                  </div>
+                )}
               </div>
-            </motion.div>
-          )}
-        </AnimatePresence>
-      </div>
-    </div>
+            </div>
+          </motion.div>
+        )}
+        {mode === 'single' && resultsKind === 'bulk' && bulk.stages.length > 0 && (
+          <motion.div
+            className="max-w-6xl mx-auto"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            transition={{ duration: 0.6 }}
+          >
+            <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+              <StageRunResults
+                title="Bulk Scan Results"
+                icon={<ListChecks className="w-5 h-5 text-violet-400" />}
+                stages={bulk.stages}
+                isRunning={bulk.isRunning}
+                progress={bulk.progress}
+                info={bulkInfo}
+              />
+            </div>
+          </motion.div>
+        )}
+        {mode === 'single' && resultsKind === 'import' && importStages.length > 0 && (
+          <motion.div
+            className="max-w-6xl mx-auto"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            transition={{ duration: 0.6 }}
+          >
+            <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+              <StageRunResults
+                title="Imported Results"
+                icon={<FileUp className="w-5 h-5 text-violet-400" />}
+                stages={importStages}
+                isRunning={false}
+                progress={null}
+                info={importInfo}
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </AppShell>
   );
 };
 
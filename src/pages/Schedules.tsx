@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { CalendarClock, ChevronDown, ChevronRight, Pause, Play, RefreshCw, Trash2 } from "lucide-react";
+import AppShell from "@/components/AppShell";
+import ScheduleForm from "@/components/schedules/ScheduleForm";
+import ScheduleRuns from "@/components/schedules/ScheduleRuns";
+import { useBackend } from "@/contexts/backend-context";
+import { useSchedules } from "@/hooks/use-schedules";
+import { useToast } from "@/hooks/use-toast";
+import { describeScanError } from "@/lib/scan-client";
+import { describeRecurrence, describeWindow } from "@/lib/schedules";
+import { getScanner } from "@/scanners";
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const SchedulesPage = () => {
+  const { demoMode } = useBackend();
+  const { schedules, loading, error, refresh, create, setPaused, remove } = useSchedules();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (err) {
+      toast({ title: failure, description: describeScanError(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <AppShell>
+      <motion.div
+        className="max-w-6xl mx-auto"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <CalendarClock className="w-5 h-5 text-violet-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-white">New Schedule</h1>
+              <p className="text-sm text-white/60">Recurring scans run on the backend, whether or not this page is open.</p>
+            </div>
+          </div>
+
+          {demoMode && (
+            <p className="mb-6 p-3 rounded-xl border bg-amber-500/10 border-amber-500/30 text-sm text-amber-300">
+              Schedules live on the scanner backend. Turn off demo mode to manage them.
+            </p>
+          )}
+
+          <ScheduleForm onCreate={create} disabled={demoMode} />
+        </div>
+
+        {!demoMode && (
+          <div className="mt-8 backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold text-white">Schedules</h2>
+              <motion.button
+                onClick={() => void refresh()}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-white/80 hover:text-white transition-all flex items-center gap-2 text-sm"
+              >
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </motion.button>
+            </div>
+
+            {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+            {!loading && !error && schedules.length === 0 && (
+              <p className="text-sm text-white/60">No schedules yet.</p>
+            )}
+
+            <div className="space-y-3">
+              {schedules.map((schedule) => {
+                const expanded = expandedId === schedule.id;
+                return (
+                  <div key={schedule.id} className="p-4 bg-white/5 border border-white/10 rounded-xl">
+                    <div className="flex flex-wrap items-start gap-4">
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : schedule.id)}
+                        className="flex-1 min-w-[14rem] text-left"
+                        aria-expanded={expanded}
+                      >
+                        <p className="flex items-center gap-2 font-medium text-white">
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          {schedule.name}
+                          {schedule.paused && (
+                            <span className="px-2 py-0.5 rounded-md text-xs font-medium border bg-gray-500/20 text-gray-300 border-gray-500/30">
+                              PAUSED
+                            </span>
+                          )}
+                        </p>
+                        <p className="mt-1 text-xs text-white/50">
+                          {getScanner(schedule.type)?.toolName ?? schedule.type}
+                          {schedule.profileName && ` (${schedule.profileName})`} · {schedule.targets.length === 1 ? schedule.targets[0] : `${schedule.targets.length} targets`} · {describeRecurrence(schedule.recurrence)} · {describeWindow(schedule.window, schedule.timezone)}
+                        </p>
+                      </button>
+                      <div className="text-xs text-white/60 space-y-1">
+                        <p>Next run: <span className="text-white/80">{schedule.paused ? 'paused' : formatTime(schedule.nextRunAt)}</span></p>
+                        <p>
+                          Last run: <span className="text-white/80">{formatTime(schedule.lastRun?.startedAt)}</span>
+                          {schedule.lastRun && ` (${schedule.lastRun.status})`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => void runAction(() => setPaused(schedule.id, !schedule.paused), 'Could not update schedule')}
+                          title={schedule.paused ? 'Resume' : 'Pause'}
+                          className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/5 transition-colors"
+                        >
+                          {schedule.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => void runAction(() => remove(schedule.id), 'Could not delete schedule')}
+                          title="Delete"
+                          className="p-2 rounded-lg text-white/60 hover:text-red-400 hover:bg-white/5 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    {expanded && (
+                      <div className="mt-4 pt-4 border-t border-white/5">
+                        {schedule.targets.length > 1 && (
+                          <p className="mb-3 font-mono text-xs text-white/50 break-all">{schedule.targets.join(', ')}</p>
+                        )}
+                        <ScheduleRuns schedule={schedule} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </AppShell>
+  );
+};
+
+export default SchedulesPage;
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle, AlertTriangle, Crosshair, Save, ShieldAlert, ShieldCheck, ShieldOff } from "lucide-react";
+import AppShell from "@/components/AppShell";
+import { useScope } from "@/contexts/scope-context";
+import { parseScopeRule, validateScope } from "@/lib/scope";
+import { useToast } from "@/hooks/use-toast";
+
+const inputClassName = "w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+const toLines = (value: string) => value.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+
+const ScopePage = () => {
+  const { scope, saveScope, revokeAcknowledgement, checkTargets, denyList, saveDenyList, checkSafety } = useScope();
+  const [engagementRef, setEngagementRef] = useState(scope.engagementRef);
+  const [allowed, setAllowed] = useState(scope.allowed.join('\n'));
+  const [excluded, setExcluded] = useState(scope.excluded.join('\n'));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [probe, setProbe] = useState('');
+  const [denied, setDenied] = useState(denyList.join('\n'));
+  const [denyErrors, setDenyErrors] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  // Acknowledging from the scan page can fill in the reference.
+  useEffect(() => {
+    setEngagementRef(scope.engagementRef);
+  }, [scope.engagementRef]);
+
+  const handleSave = () => {
+    const next = { ...scope, engagementRef: engagementRef.trim(), allowed: toLines(allowed), excluded: toLines(excluded) };
+    const problems = validateScope(next);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    saveScope(next);
+    toast({
+      title: "Scope saved",
+      description: `${next.allowed.length} allowed, ${next.excluded.length} excluded`,
+    });
+  };
+
+  const handleSaveDenyList = () => {
+    const entries = toLines(denied);
+    const problems = entries.flatMap((entry) => parseScopeRule(entry).error ?? []);
+    setDenyErrors(problems);
+    if (problems.length > 0) return;
+    saveDenyList(entries);
+    toast({
+      title: "Deny-list saved",
+      description: `${entries.length} entries need an explicit override to scan`,
+    });
+  };
+
+  const probeResult = probe.trim() ? checkTargets([probe.trim()])[0] ?? null : undefined;
+  const probeFlag = probe.trim() ? checkSafety([probe.trim()])[0] : undefined;
+
+  return (
+    <AppShell>
+      <motion.div
+        className="max-w-2xl mx-auto"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <Crosshair className="w-5 h-5 text-violet-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-white">Engagement Scope</h1>
+              <p className="text-sm text-white/60">Live scans are blocked for any target not covered here.</p>
+            </div>
+          </div>
+
+          <div className="space-y-5">
+            <div>
+              <label htmlFor="scopeEngagementRef" className="block text-sm font-medium text-white/80 mb-3">
+                Engagement Reference
+              </label>
+              <input
+                id="scopeEngagementRef"
+                value={engagementRef}
+                onChange={(e) => setEngagementRef(e.target.value)}
+                placeholder="Contract, statement of work or ticket"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="scopeAllowed" className="block text-sm font-medium text-white/80 mb-3">
+                In Scope
+              </label>
+              <textarea
+                id="scopeAllowed"
+                value={allowed}
+                onChange={(e) => setAllowed(e.target.value)}
+                rows={5}
+                placeholder={'example.com\n*.example.com\n203.0.113.0/24'}
+                className={`${inputClassName} font-mono text-sm resize-y`}
+              />
+              <p className="mt-2 text-xs text-white/40">
+                One per line: hostnames, *.wildcards (subdomains only), IP addresses or IPv4 CIDR ranges. IP entries do not cover hostnames.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="scopeExcluded" className="block text-sm font-medium text-white/80 mb-3">
+                Excluded
+              </label>
+              <textarea
+                id="scopeExcluded"
+                value={excluded}
+                onChange={(e) => setExcluded(e.target.value)}
+                rows={3}
+                placeholder={'prod-db.example.com\n203.0.113.10'}
+                className={`${inputClassName} font-mono text-sm resize-y`}
+              />
+              <p className="mt-2 text-xs text-white/40">Exclusions win over anything in scope.</p>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="space-y-1 text-sm text-red-400">
+                {errors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            <div className={`flex items-start gap-2 p-3 rounded-xl border text-sm ${scope.acknowledgement ? 'bg-green-500/10 border-green-500/30 text-green-300' : 'bg-white/5 border-white/10 text-white/60'}`}>
+              {scope.acknowledgement ? <ShieldCheck className="w-4 h-4 mt-0.5" /> : <ShieldOff className="w-4 h-4 mt-0.5" />}
+              <span className="flex-1">
+                {scope.acknowledgement
+                  ? `Authorization for ${scope.acknowledgement.reference} acknowledged ${new Date(scope.acknowledgement.acknowledgedAt).toLocaleString()}`
+                  : 'Not acknowledged yet. You will be asked to confirm the engagement reference before the first scan.'}
+              </span>
+              {scope.acknowledgement && (
+                <button onClick={revokeAcknowledgement} className="text-xs underline underline-offset-2 hover:text-white transition-colors">
+                  Revoke
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-8 flex flex-wrap gap-3">
+            <motion.button
+              onClick={handleSave}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-5 py-2.5 rounded-xl text-sm font-medium flex items-center gap-2 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white shadow-lg shadow-violet-500/25 transition-all"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </motion.button>
+          </div>
+
+          <div className="mt-8 pt-6 border-t border-white/5">
+            <label htmlFor="scopeProbe" className="block text-sm font-medium text-white/80 mb-3">
+              Check a Target
+            </label>
+            <input
+              id="scopeProbe"
+              value={probe}
+              onChange={(e) => setProbe(e.target.value)}
+              placeholder="Checked against the saved scope"
+              className={inputClassName}
+            />
+            {probeResult !== undefined && (
+              <p className={`mt-2 flex items-center gap-2 text-sm ${probeResult ? 'text-red-400' : 'text-green-300'}`}>
+                {probeResult ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+                {probeResult ?? 'In scope'}
+              </p>
+            )}
+            {probeFlag && (
+              <p className="mt-1 flex items-center gap-2 text-sm text-orange-300">
+                <ShieldAlert className="w-4 h-4" />
+                {probeFlag}; needs an override
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-8 backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <ShieldAlert className="w-5 h-5 text-orange-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Safeguards</h2>
+              <p className="text-sm text-white/60">
+                Loopback, link-local, private (RFC 1918), multicast and cloud metadata addresses always need an explicit override.
+              </p>
+            </div>
+          </div>
+
+          <label htmlFor="denyList" className="block text-sm font-medium text-white/80 mb-3">
+            Deny-list
+          </label>
+          <textarea
+            id="denyList"
+            value={denied}
+            onChange={(e) => setDenied(e.target.value)}
+            rows={4}
+            placeholder={'vault.internal.example.com\n*.corp.example.com\n198.51.100.0/24'}
+            className={`${inputClassName} font-mono text-sm resize-y`}
+          />
+          <p className="mt-2 text-xs text-white/40">Same format as the scope. Matching targets are flagged on the scan form, even in scope.</p>
+          {denyErrors.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm text-red-400">
+              {denyErrors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="mt-6">
+            <motion.button
+              onClick={handleSaveDenyList}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-5 py-2.5 rounded-xl text-sm font-medium flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white/80 hover:text-white transition-all"
+            >
+              <Save className="w-4 h-4" />
+              Save Deny-list
+            </motion.button>
+          </div>
+        </div>
+      </motion.div>
+    </AppShell>
+  );
+};
+
+export default ScopePage;
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle, AlertTriangle, RotateCcw, Save, Settings as SettingsIcon, Zap } from "lucide-react";
+import AppShell from "@/components/AppShell";
+import { useBackend, type ConnectionTestResult } from "@/contexts/backend-context";
+import { backendConfigSchema, type StreamTransport } from "@/lib/config";
+import { useToast } from "@/hooks/use-toast";
+
+const inputClassName = "w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-transparent transition-all";
+
+const TRANSPORT_OPTIONS: { value: StreamTransport; label: string }[] = [
+  { value: 'sse', label: 'Server-Sent Events' },
+  { value: 'websocket', label: 'WebSocket' },
+  { value: 'poll', label: 'Polling' },
+];
+
+const Settings = () => {
+  const { config, baseConfig, overrides, loading, backendConnected, saveOverrides, resetOverrides, testConnection } = useBackend();
+  const [backendUrl, setBackendUrl] = useState(config.backendUrl);
+  const [authToken, setAuthToken] = useState(config.authToken ?? "");
+  const [transport, setTransport] = useState<StreamTransport>(config.transport);
+  const [error, setError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const { toast } = useToast();
+
+  // Pick up config.json once it has loaded, or a reset back to the shipped values.
+  useEffect(() => {
+    setBackendUrl(config.backendUrl);
+    setAuthToken(config.authToken ?? "");
+    setTransport(config.transport);
+  }, [config]);
+
+  const parseForm = () => {
+    const parsed = backendConfigSchema.safeParse({ backendUrl, authToken, transport });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Invalid configuration");
+      return null;
+    }
+    setError(null);
+    return parsed.data;
+  };
+
+  const handleSave = () => {
+    const parsed = parseForm();
+    if (!parsed) return;
+    // Only persist the values that differ from the shipped config, so later
+    // config.json changes still apply to fields the user never touched. A
+    // cleared token is saved as empty so it overrides the shipped one.
+    saveOverrides({
+      backendUrl: parsed.backendUrl !== baseConfig.backendUrl ? parsed.backendUrl : undefined,
+      authToken: parsed.authToken !== baseConfig.authToken ? parsed.authToken ?? "" : undefined,
+      transport: parsed.transport !== baseConfig.transport ? parsed.transport : undefined,
+    });
+    toast({
+      title: "Settings saved",
+      description: `Backend set to ${parsed.backendUrl}`,
+    });
+  };
+
+  const handleReset = () => {
+    resetOverrides();
+    setTestResult(null);
+    toast({
+      title: "Settings reset",
+      description: "Using the deployment's backend configuration",
+    });
+  };
+
+  const handleTest = async () => {
+    const parsed = parseForm();
+    if (!parsed) return;
+    setIsTesting(true);
+    setTestResult(await testConnection(parsed));
+    setIsTesting(false);
+  };
+
+  const hasOverrides = Boolean(overrides.backendUrl || overrides.authToken !== undefined || overrides.transport);
+
+  return (
+    <AppShell>
+      <motion.div
+        className="max-w-2xl mx-auto"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="backdrop-blur-xl bg-white/[0.02] rounded-2xl border border-white/[0.05] p-8 shadow-2xl">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <SettingsIcon className="w-5 h-5 text-violet-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-white">Backend Settings</h1>
+              <p className="text-sm text-white/60">
+                {loading ? 'Loading deployment configuration...' : `Deployment default: ${baseConfig.backendUrl}`}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-5">
+            <div>
+              <label htmlFor="backendUrl" className="block text-sm font-medium text-white/80 mb-3">
+                Backend URL
+              </label>
+              <input
+                id="backendUrl"
+                type="url"
+                value={backendUrl}
+                onChange={(e) => setBackendUrl(e.target.value)}
+                placeholder="https://scanner.example.com"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="authToken" className="block text-sm font-medium text-white/80 mb-3">
+                Auth Token <span className="text-white/40">(optional)</span>
+              </label>
+              <input
+                id="authToken"
+                type="password"
+                value={authToken}
+                onChange={(e) => setAuthToken(e.target.value)}
+                placeholder="Sent as a Bearer token"
+                autoComplete="off"
+                className={inputClassName}
+              />
+              {!authToken && baseConfig.authToken && (
+                <p className="mt-2 text-xs text-white/40">
+                  Saving with this field empty sends no token, instead of the deployment's. Reset to Default restores it.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="transport" className="block text-sm font-medium text-white/80 mb-3">
+                Live Results
+              </label>
+              <select
+                id="transport"
+                value={transport}
+                onChange={(e) => setTransport(e.target.value as StreamTransport)}
+                className={inputClassName}
+              >
+                {TRANSPORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="mt-2 text-xs text-white/40">
+                Streaming transports reconnect automatically and fall back to polling if the backend does not support them.
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {testResult && (
+              <div className={`flex items-start gap-2 p-3 rounded-xl border text-sm ${testResult.ok ? 'bg-green-500/10 border-green-500/30 text-green-300' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}>
+                {testResult.ok ? <CheckCircle className="w-4 h-4 mt-0.5" /> : <AlertTriangle className="w-4 h-4 mt-0.5" />}
+                <span>
+                  {testResult.ok
+                    ? `Connected in ${testResult.latencyMs}ms${testResult.health?.version ? ` (backend ${testResult.health.version})` : ''}`
+                    : `Connection failed: ${testResult.error}`}
+                </span>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 text-sm text-white/60">
+              <div className={`w-2 h-2 rounded-full ${backendConnected ? 'bg-green-400' : 'bg-yellow-400'}`} />
+              {backendConnected ? 'Backend Connected' : 'Backend Unreachable'}
+            </div>
+          </div>
+
+          <div className="mt-8 flex flex-wrap gap-3">
+            <motion.button
+              onClick={handleTest}
+              disabled={isTesting}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-5 py-2.5 rounded-xl text-sm font-medium flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white/80 hover:text-white transition-all disabled:opacity-50"
+            >
+              <Zap className="w-4 h-4" />
+              {isTesting ? 'Testing...' : 'Test Connection'}
+            </motion.button>
+            <motion.button
+              onClick={handleSave}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-5 py-2.5 rounded-xl text-sm font-medium flex items-center gap-2 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white shadow-lg shadow-violet-500/25 transition-all"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </motion.button>
+            {hasOverrides && (
+              <motion.button
+                onClick={handleReset}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="px-5 py-2.5 rounded-xl text-sm font-medium flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white/60 hover:text-white transition-all"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Reset to Default
+              </motion.button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </AppShell>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,11 @@
+import { registerScanner } from "@/scanners/registry";
+import { nmapScanner } from "@/scanners/nmap";
+import { nucleiScanner } from "@/scanners/nuclei";
+import { niktoScanner } from "@/scanners/nikto";
+
+registerScanner(nmapScanner);
+registerScanner(nucleiScanner);
+registerScanner(niktoScanner);
+
+export { getScanner, listScanners, registerScanner, requireScanner } from "@/scanners/registry";
+export type { ImportedScan, ScanDiffSpec, ScanImporter, ScannerDefinition, ScannerResultsViewProps } from "@/scanners/types";
@@ -0,0 +1,20 @@
+import { TextOptionField } from "@/components/scan/OptionFields";
+
+const NiktoOptionsFields = () => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <TextOptionField
+      name="tuning"
+      label="Tuning"
+      placeholder="e.g. 123b"
+      description="Nikto -Tuning test classes (0-9, a-c, x to exclude)."
+    />
+    <TextOptionField
+      name="plugins"
+      label="Plugins"
+      placeholder="e.g. headers;outdated"
+      description="Nikto -Plugins list; leave empty for the default set."
+    />
+  </div>
+);
+
+export default NiktoOptionsFields;
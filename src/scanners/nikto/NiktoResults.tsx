@@ -0,0 +1,34 @@
+import { useState } from "react";
+import FindingDetailSheet from "@/components/results/FindingDetailSheet";
+import ResultsTable from "@/components/results/ResultsTable";
+import type { ResultColumn } from "@/lib/results-table";
+import type { ScanResult } from "@/lib/scan-client";
+import { toFindingEntity } from "@/lib/scan-model";
+import { requireScanner } from "@/scanners/registry";
+import type { ScannerResultsViewProps } from "@/scanners/types";
+
+const COLUMNS: ResultColumn[] = [
+  {
+    id: 'endpoint',
+    label: 'Endpoint',
+    value: (result) => result.endpoint ?? '',
+    filterable: true,
+    className: 'text-violet-400 font-mono text-xs break-all',
+  },
+  { id: 'method', label: 'Method', value: (result) => result.method ?? '', filterable: true, hiddenByDefault: true, className: 'text-white/70 font-mono text-xs' },
+  { id: 'description', label: 'Finding', value: (result) => result.description ?? '', className: 'text-white/80' },
+  { id: 'testId', label: 'Test ID', value: (result) => result.testId ?? '', hiddenByDefault: true, className: 'text-white/70 font-mono text-xs' },
+  { id: 'osvdb', label: 'OSVDB', value: (result) => result.osvdb ?? '', hiddenByDefault: true, className: 'text-white/70 font-mono text-xs' },
+];
+
+const NiktoResults = ({ results }: ScannerResultsViewProps) => {
+  const [selected, setSelected] = useState<ScanResult | null>(null);
+  return (
+    <>
+      <ResultsTable results={results} columns={COLUMNS} onRowClick={setSelected} />
+      <FindingDetailSheet finding={selected ? toFindingEntity(requireScanner('nikto'), selected) ?? null : null} onClose={() => setSelected(null)} />
+    </>
+  );
+};
+
+export default NiktoResults;
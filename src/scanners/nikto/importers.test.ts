@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import { File as NodeFile } from "node:buffer";
+import { describe, expect, it } from "vitest";
+import { ScanImportError } from "@/lib/scan-import";
+import { niktoCsvImporter, parseNiktoCsv, parseNiktoJson, parseNiktoXml } from "@/scanners/nikto/importers";
+
+describe("parseNiktoJson", () => {
+  it("reads one host object into results with absolute URLs", () => {
+    const [scan] = parseNiktoJson(
+      JSON.stringify({
+        host: "example.com",
+        ip: "192.0.2.10",
+        port: "8080",
+        vulnerabilities: [
+          { id: "999986", OSVDB: "0", method: "GET", url: "/admin/", msg: " Admin login page found. ", references: "https://example.org/a, https://example.org/b" },
+          { id: "000726", OSVDB: "3092", method: "GET", url: "/", msg: "Server leaks inodes via ETags" },
+        ],
+      })
+    );
+
+    expect(scan.target).toBe("http://example.com:8080");
+    expect(scan.results).toEqual([
+      {
+        host: "example.com",
+        endpoint: "/admin/",
+        url: "http://example.com:8080/admin/",
+        method: "GET",
+        description: "Admin login page found.",
+        testId: "999986",
+        osvdb: undefined,
+        references: ["https://example.org/a", "https://example.org/b"],
+      },
+      expect.objectContaining({ endpoint: "/", osvdb: "OSVDB-3092" }),
+    ]);
+  });
+
+  it("merges repeated hosts from multi-host runs", () => {
+    const host = (msg: string) => ({ host: "example.com", port: 443, vulnerabilities: [{ url: "/", msg }] });
+    const scans = parseNiktoJson(JSON.stringify([host("first"), host("second"), { ip: "192.0.2.11", port: 80, vulnerabilities: [] }]));
+
+    expect(scans.map((scan) => [scan.target, scan.results.length])).toEqual([
+      ["https://example.com", 2],
+      ["http://192.0.2.11", 0],
+    ]);
+  });
+
+  it("rejects JSON that is not a Nikto report", () => {
+    expect(() => parseNiktoJson("{")).toThrow("This is not valid Nikto JSON");
+    expect(() => parseNiktoJson('{"host":"example.com"}')).toThrow(ScanImportError);
+  });
+});
+
+describe("parseNiktoXml", () => {
+  it("reads each scandetails element with its times", () => {
+    const [scan] = parseNiktoXml(`<?xml version="1.0" ?>
+<niktoscan>
+  <scandetails targetip="192.0.2.10" targethostname="example.com" targetport="443" sitename="https://example.com:443/" starttime="2024-01-01 10:00:00">
+    <item id="999957" osvdbid="0" method="GET">
+      <description><![CDATA[The anti-clickjacking X-Frame-Options header is not present.]]></description>
+      <uri><![CDATA[/]]></uri>
+      <references><![CDATA[https://developer.mozilla.org/]]></references>
+    </item>
+    <statistics elapsed="60" itemsfound="1" itemstested="100" endtime="2024-01-01 10:01:00" />
+  </scandetails>
+</niktoscan>`);
+
+    expect(scan).toEqual({
+      target: "https://example.com:443",
+      startedAt: new Date("2024-01-01T10:00:00"),
+      finishedAt: new Date("2024-01-01T10:01:00"),
+      results: [
+        {
+          host: "example.com",
+          endpoint: "/",
+          url: "https://example.com/",
+          method: "GET",
+          description: "The anti-clickjacking X-Frame-Options header is not present.",
+          testId: "999957",
+          osvdb: undefined,
+          references: ["https://developer.mozilla.org/"],
+        },
+      ],
+    });
+  });
+
+  it("rejects other XML documents", () => {
+    expect(() => parseNiktoXml("<nmaprun/>")).toThrow("Expected a <niktoscan> report, found <nmaprun>");
+    expect(() => parseNiktoXml("<niktoscan>")).toThrow(ScanImportError);
+  });
+});
+
+describe("parseNiktoCsv", () => {
+  // jsdom's File cannot be streamed, which the CSV importer needs.
+  const csv = (...lines: string[]) => new NodeFile([lines.join("\n")], "nikto.csv", { type: "text/csv" }) as unknown as File;
+
+  it("reads rows with and without the test ID column, skipping the banner", async () => {
+    const scans = await parseNiktoCsv(
+      csv(
+        '"Nikto - v2.5.0/"',
+        '"example.com","192.0.2.10","80","999986","0","GET","/admin/","Admin login page found, with ""quotes""."',
+        '"example.com","192.0.2.10","80","3092","GET","/old/","Old directory found."',
+        ""
+      )
+    );
+
+    expect(scans).toHaveLength(1);
+    expect(scans[0].target).toBe("http://example.com");
+    expect(scans[0].results.map(({ endpoint, testId, osvdb, description }) => ({ endpoint, testId, osvdb, description }))).toEqual([
+      { endpoint: "/admin/", testId: "999986", osvdb: undefined, description: 'Admin login page found, with "quotes".' },
+      { endpoint: "/old/", testId: undefined, osvdb: "OSVDB-3092", description: "Old directory found." },
+    ]);
+  });
+
+  it("is detected by Nikto's banner", () => {
+    expect(niktoCsvImporter.detect('"Nikto - v2.5.0/"\n')).toBe(true);
+    expect(niktoCsvImporter.detect("host,port\n")).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { forEachLine, parseXml, ScanImportError } from "@/lib/scan-import";
+import type { ScanResult } from "@/lib/scan-client";
+import type { ImportedScan, ScanImporter } from "@/scanners/types";
+
+/** One reported item, as every Nikto output format describes it. */
+interface NiktoItem {
+  id?: string;
+  osvdb?: string;
+  method?: string;
+  uri?: string;
+  message?: string;
+  references?: string;
+}
+
+interface NiktoHost {
+  host: string;
+  port?: string;
+  /** Site URL when the report gives one, e.g. "https://example.com:443/". */
+  siteUrl?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  items: NiktoItem[];
+}
+
+// OSVDB is defunct and Nikto reports 0 for tests without an entry.
+const osvdbReference = (value: string | undefined) => {
+  const number = /(\d+)\s*$/.exec(value ?? '')?.[1];
+  return number && Number(number) > 0 ? `OSVDB-${number}` : undefined;
+};
+
+const siteUrl = ({ host, port, siteUrl: url }: NiktoHost) => {
+  if (url) return url;
+  if (port === '443') return `https://${host}/`;
+  return `http://${host}${port && port !== '80' ? `:${port}` : ''}/`;
+};
+
+/** Nikto writes local times like "2024-01-01 10:00:00". */
+const parseNiktoTime = (value: string | null | undefined) => {
+  const date = value ? new Date(value.replace(' ', 'T')) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+function toResult(item: NiktoItem, host: NiktoHost): ScanResult {
+  let url: string | undefined;
+  try {
+    url = item.uri ? new URL(item.uri, siteUrl(host)).toString() : undefined;
+  } catch {
+    url = undefined;
+  }
+  const references = item.references?.split(/[\s,]+/).filter(Boolean);
+  return {
+    host: host.host,
+    endpoint: item.uri || '/',
+    url,
+    method: item.method || undefined,
+    description: item.message?.trim() ?? '',
+    testId: item.id || undefined,
+    osvdb: osvdbReference(item.osvdb),
+    references: references?.length > 0 ? references : undefined,
+  };
+}
+
+/** Merges hosts scanned more than once in a report and turns their items into results. */
+function groupHosts(hosts: NiktoHost[]): ImportedScan[] {
+  const scans = new Map<string, ImportedScan>();
+  hosts.forEach((host) => {
+    const target = siteUrl(host).replace(/\/$/, '');
+    const scan = scans.get(target) ?? { target, results: [], startedAt: host.startedAt, finishedAt: host.finishedAt };
+    scan.results.push(...host.items.map((item) => toResult(item, host)));
+    scans.set(target, scan);
+  });
+  return [...scans.values()];
+}
+
+/** Parses `nikto -Format json`: one host object, or an array of them for multi-host runs. */
+export function parseNiktoJson(text: string): ImportedScan[] {
+  let report: unknown;
+  try {
+    report = JSON.parse(text);
+  } catch (error) {
+    throw new ScanImportError('This is not valid Nikto JSON', { cause: error });
+  }
+  const entries = (Array.isArray(report) ? report : [report]) as Record<string, unknown>[];
+  if (!entries.every((entry) => entry && typeof entry === 'object' && Array.isArray(entry.vulnerabilities))) {
+    throw new ScanImportError('Expected Nikto host objects with a "vulnerabilities" list');
+  }
+  return groupHosts(
+    entries.map((entry) => ({
+      host: String(entry.host || entry.ip || 'unknown'),
+      port: entry.port !== undefined ? String(entry.port) : undefined,
+      items: (entry.vulnerabilities as Record<string, unknown>[]).map((item) => ({
+        id: item.id !== undefined ? String(item.id) : undefined,
+        osvdb: item.OSVDB !== undefined ? String(item.OSVDB) : undefined,
+        method: item.method as string,
+        uri: item.url as string,
+        message: item.msg as string,
+        references: item.references as string,
+      })),
+    }))
+  );
+}
+
+/** Parses `nikto -Format xml`, with one `<scandetails>` per host. */
+export function parseNiktoXml(text: string): ImportedScan[] {
+  const document = parseXml(text, 'Nikto XML');
+  if (!['niktoscan', 'niktoscans'].includes(document.documentElement.tagName)) {
+    throw new ScanImportError(`Expected a <niktoscan> report, found <${document.documentElement.tagName}>`);
+  }
+  const childText = (element: Element, name: string) =>
+    Array.from(element.children).find((child) => child.tagName === name)?.textContent?.trim();
+  return groupHosts(
+    Array.from(document.getElementsByTagName('scandetails')).map((details) => ({
+      host: details.getAttribute('targethostname') || details.getAttribute('targetip') || 'unknown',
+      port: details.getAttribute('targetport') || undefined,
+      siteUrl: details.getAttribute('sitename') || undefined,
+      startedAt: parseNiktoTime(details.getAttribute('starttime')),
+      finishedAt: parseNiktoTime(details.getElementsByTagName('statistics')[0]?.getAttribute('endtime')),
+      items: Array.from(details.getElementsByTagName('item')).map((item) => ({
+        id: item.getAttribute('id') || undefined,
+        osvdb: item.getAttribute('osvdbid') || undefined,
+        method: item.getAttribute('method') || undefined,
+        uri: childText(item, 'uri'),
+        message: childText(item, 'description'),
+        references: childText(item, 'references'),
+      })),
+    }))
+  );
+}
+
+/** Splits one CSV row, honouring quoted fields and doubled quotes. */
+function splitCsvRow(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Parses `nikto -Format csv`: host, IP, port, OSVDB, method, URI and message,
+ * with a test ID column after the port in newer releases.
+ */
+export async function parseNiktoCsv(file: File, onProgress?: (fraction: number) => void): Promise<ImportedScan[]> {
+  const hosts = new Map<string, NiktoHost>();
+  await forEachLine(
+    file,
+    (line) => {
+      const fields = splitCsvRow(line);
+      const [hostname, ip, port, ...rest] = fields;
+      // Skips the "Nikto - v2.x" banner, column headings and blank lines.
+      if (fields.length < 7 || !/^\d+$/.test(port)) return;
+      const [id, osvdb, method, uri, message] = rest.length >= 5 ? rest : [undefined, ...rest];
+      const key = `${hostname || ip}:${port}`;
+      const host = hosts.get(key) ?? { host: hostname || ip, port: port || undefined, items: [] };
+      host.items.push({ id, osvdb, method, uri, message });
+      hosts.set(key, host);
+    },
+    onProgress
+  );
+  return groupHosts([...hosts.values()]);
+}
+
+export const niktoJsonImporter: ScanImporter = {
+  label: 'Nikto JSON (-Format json)',
+  extensions: ['.json'],
+  detect: (head) => /^\s*[[{]/.test(head) && head.includes('"vulnerabilities"'),
+  parse: async (file) => parseNiktoJson(await file.text()),
+};
+
+export const niktoXmlImporter: ScanImporter = {
+  label: 'Nikto XML (-Format xml)',
+  extensions: ['.xml'],
+  detect: (head) => /<niktoscans?[\s>]/.test(head),
+  parse: async (file) => parseNiktoXml(await file.text()),
+};
+
+export const niktoCsvImporter: ScanImporter = {
+  label: 'Nikto CSV (-Format csv)',
+  extensions: ['.csv'],
+  detect: (head) => /^"?Nikto - v/.test(head),
+  parse: parseNiktoCsv,
+};
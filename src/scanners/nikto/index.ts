@@ -0,0 +1,61 @@
+import { z } from "zod";
+import NiktoOptionsFields from "@/scanners/nikto/NiktoOptionsFields";
+import NiktoResults from "@/scanners/nikto/NiktoResults";
+import { niktoCsvImporter, niktoJsonImporter, niktoXmlImporter } from "@/scanners/nikto/importers";
+import type { ScannerDefinition } from "@/scanners/types";
+
+export const niktoOptionsSchema = z.object({
+  tuning: z.string().trim().regex(/^[0-9a-cx]*$/i, 'Tuning uses the characters 0-9, a-c and x'),
+  plugins: z.string().trim().regex(/^[\w\-;,().:]*$/, 'Separate plugins with semicolons, e.g. headers;outdated'),
+});
+
+export type NiktoOptions = z.infer<typeof niktoOptionsSchema>;
+
+export const niktoScanner: ScannerDefinition<NiktoOptions> = {
+  id: 'nikto',
+  label: 'Server Misconfig (Nikto)',
+  toolName: 'Nikto',
+  category: 'web',
+  optionsSchema: niktoOptionsSchema,
+  defaultOptions: {
+    tuning: '',
+    plugins: '',
+  },
+  OptionsFields: NiktoOptionsFields,
+  ResultsView: NiktoResults,
+  toEntity: (result) => ({
+    kind: 'finding',
+    scanner: 'nikto',
+    ruleId: result.testId,
+    title: result.title ?? result.description,
+    // Nikto does not rate its items.
+    severity: result.severity ?? 'info',
+    confidence: result.confidence,
+    host: result.host,
+    location: result.url ?? result.endpoint,
+    method: result.method,
+    description: result.description,
+    references: [result.osvdb, ...(result.references ?? [])].filter(Boolean),
+  }),
+  diff: {
+    key: (result) => `${result.endpoint ?? ''}\n${result.description}`,
+    compare: [],
+    describe: (result) => `${result.endpoint || '/'}: ${result.description}`,
+    labels: { added: 'New items', removed: 'Gone items', changed: 'Changed items' },
+  },
+  importers: [niktoJsonImporter, niktoXmlImporter, niktoCsvImporter],
+  demoResults: () => [
+    {
+      description: 'Server leaks inodes via ETags, header found with file /, inode: 12345, size: 4096, mtime: Mon Dec 25 10:23:45 2023',
+      endpoint: '/'
+    },
+    {
+      description: 'The anti-clickjacking X-Frame-Options header is not present.',
+      endpoint: '/'
+    },
+    {
+      description: 'Web server returns a valid response with junk HTTP methods, this may cause false positives.',
+      endpoint: '/'
+    }
+  ],
+};
@@ -0,0 +1,34 @@
+import { SelectOptionField, SwitchOptionField, TextOptionField } from "@/components/scan/OptionFields";
+
+const TIMING_OPTIONS = [
+  { value: '0', label: 'T0 - Paranoid' },
+  { value: '1', label: 'T1 - Sneaky' },
+  { value: '2', label: 'T2 - Polite' },
+  { value: '3', label: 'T3 - Normal' },
+  { value: '4', label: 'T4 - Aggressive' },
+  { value: '5', label: 'T5 - Insane' },
+];
+
+const NmapOptionsFields = () => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <TextOptionField
+      name="ports"
+      label="Ports"
+      placeholder="e.g. 22,80,443,8000-8100"
+      description="Leave empty for Nmap's top 1000 ports."
+    />
+    <SelectOptionField name="timing" label="Timing Template" options={TIMING_OPTIONS} />
+    <SwitchOptionField name="serviceVersion" label="Service Detection (-sV)" description="Probe open ports for service and version info." />
+    <SwitchOptionField name="osDetection" label="OS Detection (-O)" description="Requires the backend to run Nmap as root." />
+    <div className="md:col-span-2">
+      <TextOptionField
+        name="scripts"
+        label="NSE Scripts"
+        placeholder="e.g. default,vuln,http-title"
+        description="Comma-separated script names or categories."
+      />
+    </div>
+  </div>
+);
+
+export default NmapOptionsFields;
@@ -0,0 +1,58 @@
+import ResultsTable from "@/components/results/ResultsTable";
+import type { ResultColumn } from "@/lib/results-table";
+import { getPortStateColor } from "@/scanners/styles";
+import type { ScannerResultsViewProps } from "@/scanners/types";
+
+const COLUMNS: ResultColumn[] = [
+  { id: 'host', label: 'Host', value: (result) => result.host ?? '', filterable: true, hiddenByDefault: true, className: 'text-white/70 font-mono' },
+  { id: 'port', label: 'Port', value: (result) => result.port ?? '', className: 'text-white font-mono' },
+  { id: 'protocol', label: 'Protocol', value: (result) => result.protocol ?? '', filterable: true, hiddenByDefault: true },
+  {
+    id: 'state',
+    label: 'State',
+    value: (result) => result.state ?? '',
+    filterable: true,
+    render: (result) => <span className={`font-medium ${getPortStateColor(result.state || '')}`}>{result.state}</span>,
+  },
+  { id: 'reason', label: 'Reason', value: (result) => result.reason ?? '', hiddenByDefault: true },
+  { id: 'service', label: 'Service', value: (result) => result.service ?? '', filterable: true },
+  { id: 'product', label: 'Product', value: (result) => result.product ?? '' },
+  { id: 'version', label: 'Version', value: (result) => result.version ?? '' },
+  {
+    id: 'scripts',
+    label: 'Scripts',
+    value: (result) => result.scripts?.map((script) => `${script.id}: ${script.output}`).join('\n') ?? '',
+    hiddenByDefault: true,
+    className: 'text-white/70 font-mono text-xs whitespace-pre-wrap',
+  },
+];
+
+const NmapResults = ({ results }: ScannerResultsViewProps) => {
+  // Imported reports carry OS guesses and host scripts on a result without a port.
+  const hostResults = results.filter((result) => !result.port);
+  const portResults = results.filter((result) => result.port);
+
+  return (
+    <div className="space-y-4">
+      {hostResults.map((host, index) => (
+        <div key={index} className="p-4 rounded-xl bg-white/5 border border-white/10 text-sm space-y-1">
+          <p className="text-white font-mono">
+            {host.host}
+            {host.hostnames?.length > 0 && <span className="text-white/50"> ({host.hostnames.join(', ')})</span>}
+          </p>
+          {host.osMatches?.length > 0 && (
+            <p className="text-white/70">
+              OS: {host.osMatches.map((match) => `${match.name}${match.accuracy !== undefined ? ` (${match.accuracy}%)` : ''}`).join(', ')}
+            </p>
+          )}
+          {host.scripts?.map((script) => (
+            <p key={script.id} className="text-white/60 font-mono text-xs whitespace-pre-wrap">{script.id}: {script.output}</p>
+          ))}
+        </div>
+      ))}
+      <ResultsTable results={portResults} columns={COLUMNS} />
+    </div>
+  );
+};
+
+export default NmapResults;
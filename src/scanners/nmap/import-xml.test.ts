@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { ScanImportError } from "@/lib/scan-import";
+import { nmapXmlImporter, parseNmapXml } from "@/scanners/nmap/import-xml";
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<nmaprun scanner="nmap" args="nmap -sV -O -oX - scanme.example" start="1700000000">
+  <host starttime="1700000010" endtime="1700000070">
+    <status state="up" reason="echo-reply"/>
+    <address addr="192.0.2.10" addrtype="ipv4"/>
+    <address addr="00:11:22:33:44:55" addrtype="mac"/>
+    <hostnames>
+      <hostname name="scanme.example" type="user"/>
+      <hostname name="web-1.example" type="PTR"/>
+    </hostnames>
+    <ports>
+      <port protocol="tcp" portid="22">
+        <state state="open" reason="syn-ack"/>
+        <service name="ssh" product="OpenSSH" version="8.9p1" extrainfo="Ubuntu Linux">
+          <cpe>cpe:/a:openbsd:openssh:8.9p1</cpe>
+        </service>
+        <script id="ssh-hostkey" output="256 aa:bb (ED25519)"/>
+      </port>
+      <port protocol="udp" portid="161">
+        <state state="open|filtered" reason="no-response"/>
+      </port>
+    </ports>
+    <os><osmatch name="Linux 5.4" accuracy="96"/></os>
+  </host>
+  <host>
+    <address addr="192.0.2.11" addrtype="ipv4"/>
+  </host>
+  <runstats><finished time="1700000100"/></runstats>
+</nmaprun>`;
+
+describe("parseNmapXml", () => {
+  it("reads ports, services, scripts and OS matches per host", () => {
+    const [first] = parseNmapXml(REPORT);
+
+    expect(first.target).toBe("scanme.example");
+    expect(first.startedAt).toEqual(new Date(1700000010 * 1000));
+    expect(first.finishedAt).toEqual(new Date(1700000070 * 1000));
+    expect(first.results).toEqual([
+      {
+        host: "192.0.2.10",
+        hostnames: ["scanme.example", "web-1.example"],
+        state: "up",
+        reason: "echo-reply",
+        osMatches: [{ name: "Linux 5.4", accuracy: 96 }],
+        scripts: undefined,
+      },
+      expect.objectContaining({
+        port: "22",
+        protocol: "tcp",
+        state: "open",
+        reason: "syn-ack",
+        service: "ssh",
+        product: "OpenSSH",
+        version: "8.9p1 (Ubuntu Linux)",
+        cpe: ["cpe:/a:openbsd:openssh:8.9p1"],
+        scripts: [{ id: "ssh-hostkey", output: "256 aa:bb (ED25519)" }],
+      }),
+      expect.objectContaining({ port: "161", protocol: "udp", state: "open|filtered", service: undefined }),
+    ]);
+  });
+
+  it("falls back to the address and the run's timestamps", () => {
+    const second = parseNmapXml(REPORT)[1];
+
+    expect(second).toEqual({
+      target: "192.0.2.11",
+      results: [],
+      startedAt: new Date(1700000000 * 1000),
+      finishedAt: new Date(1700000100 * 1000),
+    });
+  });
+
+  it("rejects other XML documents", () => {
+    expect(() => parseNmapXml("<niktoscan/>")).toThrow(ScanImportError);
+    expect(() => parseNmapXml("<niktoscan/>")).toThrow("Expected an <nmaprun> report, found <niktoscan>");
+  });
+
+  it("is detected from the start of the file", () => {
+    expect(nmapXmlImporter.detect(REPORT.slice(0, 200))).toBe(true);
+    expect(nmapXmlImporter.detect('{"template-id":"x"}')).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { epochAttribute, parseXml, ScanImportError } from "@/lib/scan-import";
+import type { ScanResult } from "@/lib/scan-client";
+import type { ImportedScan, ScanImporter } from "@/scanners/types";
+
+const childrenNamed = (parent: Element | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter((child) => child.tagName === name) : [];
+
+const attribute = (element: Element | null | undefined, name: string) => element?.getAttribute(name) || undefined;
+
+function parsePort(port: Element, host: string, hostnames: string[]): ScanResult {
+  const state = childrenNamed(port, "state")[0];
+  const service = childrenNamed(port, "service")[0];
+  const scripts = childrenNamed(port, "script").map((script) => ({
+    id: script.getAttribute("id") ?? "",
+    output: script.getAttribute("output") ?? "",
+  }));
+  const cpe = childrenNamed(service, "cpe").map((element) => element.textContent?.trim()).filter(Boolean);
+  const version = [attribute(service, "version"), attribute(service, "extrainfo") && `(${attribute(service, "extrainfo")})`]
+    .filter(Boolean)
+    .join(" ");
+  return {
+    host,
+    hostnames: hostnames.length > 0 ? hostnames : undefined,
+    port: attribute(port, "portid"),
+    protocol: attribute(port, "protocol"),
+    state: attribute(state, "state"),
+    reason: attribute(state, "reason"),
+    service: attribute(service, "name"),
+    product: attribute(service, "product"),
+    version: version || undefined,
+    cpe: cpe.length > 0 ? cpe : undefined,
+    scripts: scripts.length > 0 ? scripts : undefined,
+  };
+}
+
+/**
+ * Turns `nmap -oX` output into one imported scan per host. Each port becomes a
+ * result; OS matches and host scripts go on a leading result without a port.
+ */
+export function parseNmapXml(text: string): ImportedScan[] {
+  const document = parseXml(text, "Nmap XML");
+  const root = document.documentElement;
+  if (root.tagName !== "nmaprun") {
+    throw new ScanImportError(`Expected an <nmaprun> report, found <${root.tagName}>`);
+  }
+  const runStarted = epochAttribute(root, "start");
+  const runFinished = epochAttribute(childrenNamed(childrenNamed(root, "runstats")[0], "finished")[0], "time");
+
+  return childrenNamed(root, "host").map((hostElement) => {
+    const addresses = childrenNamed(hostElement, "address");
+    const ipAddress = addresses.find((address) => address.getAttribute("addrtype") !== "mac") ?? addresses[0];
+    const hostnameElements = childrenNamed(childrenNamed(hostElement, "hostnames")[0], "hostname");
+    const hostnames = hostnameElements.map((hostname) => hostname.getAttribute("name")).filter(Boolean);
+    const address = attribute(ipAddress, "addr") ?? hostnames[0] ?? "unknown";
+    // Prefer the name the scan was started with, as live scans do.
+    const userHostname = attribute(hostnameElements.find((hostname) => hostname.getAttribute("type") === "user"), "name");
+
+    const osMatches = childrenNamed(childrenNamed(hostElement, "os")[0], "osmatch").map((match) => ({
+      name: match.getAttribute("name") ?? "",
+      accuracy: match.hasAttribute("accuracy") ? Number(match.getAttribute("accuracy")) : undefined,
+    }));
+    const hostScripts = childrenNamed(childrenNamed(hostElement, "hostscript")[0], "script").map((script) => ({
+      id: script.getAttribute("id") ?? "",
+      output: script.getAttribute("output") ?? "",
+    }));
+    const status = childrenNamed(hostElement, "status")[0];
+
+    const results: ScanResult[] = [];
+    if (osMatches.length > 0 || hostScripts.length > 0) {
+      results.push({
+        host: address,
+        hostnames: hostnames.length > 0 ? hostnames : undefined,
+        state: attribute(status, "state"),
+        reason: attribute(status, "reason"),
+        osMatches: osMatches.length > 0 ? osMatches : undefined,
+        scripts: hostScripts.length > 0 ? hostScripts : undefined,
+      });
+    }
+    childrenNamed(childrenNamed(hostElement, "ports")[0], "port").forEach((port) => {
+      results.push(parsePort(port, address, hostnames));
+    });
+
+    return {
+      target: userHostname ?? address,
+      results,
+      startedAt: epochAttribute(hostElement, "starttime") ?? runStarted,
+      finishedAt: epochAttribute(hostElement, "endtime") ?? runFinished,
+    };
+  });
+}
+
+export const nmapXmlImporter: ScanImporter = {
+  label: 'Nmap XML (-oX)',
+  extensions: ['.xml'],
+  detect: (head) => /<nmaprun[\s>]/.test(head),
+  parse: async (file) => parseNmapXml(await file.text()),
+};
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import type { ServiceEntity } from "@/lib/scan-model";
+import NmapOptionsFields from "@/scanners/nmap/NmapOptionsFields";
+import NmapResults from "@/scanners/nmap/NmapResults";
+import { nmapXmlImporter } from "@/scanners/nmap/import-xml";
+import type { ScannerDefinition } from "@/scanners/types";
+
+const MAX_PORT = 65535;
+
+/** Accepts Nmap `-p` style lists such as `22,80,8000-8100`; empty means Nmap's default. */
+const isValidPortSpec = (spec: string) =>
+  spec === '' ||
+  spec.split(',').every((part) => {
+    const match = /^(\d{1,5})(?:-(\d{1,5}))?$/.exec(part.trim());
+    if (!match) return false;
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+    return start >= 1 && end <= MAX_PORT && start <= end;
+  });
+
+export const nmapOptionsSchema = z.object({
+  ports: z.string().trim().refine(isValidPortSpec, `Use ports and ranges like 22,80,8000-8100 (1-${MAX_PORT})`),
+  timing: z.coerce.number().int().min(0).max(5),
+  serviceVersion: z.boolean(),
+  osDetection: z.boolean(),
+  scripts: z.string().trim().regex(/^[\w\-.*, ]*$/, 'Script names may only contain letters, digits, - . * and commas'),
+});
+
+export type NmapOptions = z.infer<typeof nmapOptionsSchema>;
+
+export const nmapScanner: ScannerDefinition<NmapOptions> = {
+  id: 'nmap',
+  label: 'Port Scan (Nmap)',
+  toolName: 'Nmap',
+  category: 'network',
+  optionsSchema: nmapOptionsSchema,
+  defaultOptions: {
+    ports: '',
+    timing: 3,
+    serviceVersion: true,
+    osDetection: false,
+    scripts: '',
+  },
+  OptionsFields: NmapOptionsFields,
+  ResultsView: NmapResults,
+  // Results without a port describe the host itself (OS matches, host scripts).
+  toEntity: (result) =>
+    result.port
+      ? {
+          kind: 'service',
+          scanner: 'nmap',
+          host: result.host,
+          port: Number(result.port),
+          protocol: (result.protocol ?? 'tcp') as ServiceEntity['protocol'],
+          state: result.state ?? 'unknown',
+          reason: result.reason,
+          name: result.service,
+          product: result.product,
+          version: result.version,
+          cpe: result.cpe,
+          scripts: result.scripts,
+        }
+      : {
+          kind: 'host',
+          scanner: 'nmap',
+          address: result.host,
+          hostnames: result.hostnames,
+          state: result.state,
+          reason: result.reason,
+          osMatches: result.osMatches,
+          scripts: result.scripts,
+        },
+  diff: {
+    key: (result) => `${result.port}/${result.protocol ?? 'tcp'}`,
+    include: (result) => result.state === 'open',
+    compare: ['service'],
+    describe: (result) => `${result.port}/${result.service || 'unknown'}`,
+    labels: { added: 'Opened ports', removed: 'Closed ports', changed: 'Service changed' },
+  },
+  importers: [nmapXmlImporter],
+  demoResults: () => [
+    { port: '22', state: 'open', service: 'ssh' },
+    { port: '80', state: 'open', service: 'http' },
+    { port: '443', state: 'open', service: 'https' },
+    { port: '3306', state: 'filtered', service: 'mysql' }
+  ],
+};
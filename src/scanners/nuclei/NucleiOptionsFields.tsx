@@ -0,0 +1,25 @@
+import { CheckboxGroupOptionField, NumberOptionField, TextOptionField } from "@/components/scan/OptionFields";
+
+const SEVERITY_OPTIONS = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const NucleiOptionsFields = () => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <TextOptionField
+      name="tags"
+      label="Template Tags"
+      placeholder="e.g. cve,misconfig,exposure"
+      description="Comma-separated; leave empty to run all templates."
+    />
+    <NumberOptionField name="rateLimit" label="Rate Limit" min={1} max={1000} description="Maximum requests per second." />
+    <div className="md:col-span-2">
+      <CheckboxGroupOptionField name="severities" label="Severities" options={SEVERITY_OPTIONS} />
+    </div>
+  </div>
+);
+
+export default NucleiOptionsFields;
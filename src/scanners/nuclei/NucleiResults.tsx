@@ -0,0 +1,40 @@
+import { useState } from "react";
+import FindingDetailSheet from "@/components/results/FindingDetailSheet";
+import ResultsTable from "@/components/results/ResultsTable";
+import type { ResultColumn } from "@/lib/results-table";
+import type { ScanResult } from "@/lib/scan-client";
+import { toFindingEntity } from "@/lib/scan-model";
+import { requireScanner } from "@/scanners/registry";
+import { getSeverityColor, severityRank } from "@/scanners/styles";
+import type { ScannerResultsViewProps } from "@/scanners/types";
+
+const COLUMNS: ResultColumn[] = [
+  {
+    id: 'severity',
+    label: 'Severity',
+    value: (result) => result.severity ?? '',
+    compare: (a, b) => severityRank(a.severity ?? '') - severityRank(b.severity ?? ''),
+    filterable: true,
+    // Informational findings from imported reports carry no severity.
+    render: (result) => result.severity && (
+      <span className={`px-2 py-1 rounded-md text-xs font-medium border ${getSeverityColor(result.severity)}`}>
+        {result.severity.toUpperCase()}
+      </span>
+    ),
+  },
+  { id: 'title', label: 'Finding', value: (result) => result.title ?? '', className: 'font-medium text-white' },
+  { id: 'url', label: 'URL', value: (result) => result.url ?? '', className: 'text-violet-400 font-mono text-xs break-all' },
+  { id: 'description', label: 'Description', value: (result) => result.description ?? '', hiddenByDefault: true },
+];
+
+const NucleiResults = ({ results }: ScannerResultsViewProps) => {
+  const [selected, setSelected] = useState<ScanResult | null>(null);
+  return (
+    <>
+      <ResultsTable results={results} columns={COLUMNS} onRowClick={setSelected} />
+      <FindingDetailSheet finding={selected ? toFindingEntity(requireScanner('nuclei'), selected) ?? null : null} onClose={() => setSelected(null)} />
+    </>
+  );
+};
+
+export default NucleiResults;
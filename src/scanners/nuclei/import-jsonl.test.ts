@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { ScanImportError } from "@/lib/scan-import";
+import { nucleiJsonlImporter, parseNucleiJsonl } from "@/scanners/nuclei/import-jsonl";
+
+const jsonl = (...records: unknown[]) =>
+  new File([records.map((record) => (typeof record === "string" ? record : JSON.stringify(record))).join("\n")], "nuclei.jsonl");
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  "template-id": "apache-detect",
+  info: { name: "Apache Detection", severity: "info" },
+  host: "https://example.com",
+  "matched-at": "https://example.com/",
+  timestamp: "2024-01-01T10:00:00Z",
+  ...overrides,
+});
+
+describe("parseNucleiJsonl", () => {
+  it("maps findings with their classification and groups them by host", async () => {
+    const scans = await parseNucleiJsonl(
+      jsonl(
+        record({
+          "template-id": "CVE-2021-41773",
+          info: {
+            name: "Apache 2.4.49 - Path Traversal",
+            severity: "CRITICAL",
+            description: " Path traversal. ",
+            reference: "https://nvd.nist.gov/vuln/detail/CVE-2021-41773",
+            classification: { "cve-id": ["cve-2021-41773"], "cwe-id": "cwe-22", "cvss-score": 9.8, "cvss-metrics": "CVSS:3.1/AV:N" },
+          },
+          "matched-at": "https://example.com/cgi-bin/.%2e/etc/passwd",
+          "extracted-results": [],
+          timestamp: "2024-01-01T10:05:00Z",
+        }),
+        "",
+        record(),
+        record({ host: "https://other.example", "matched-at": undefined })
+      )
+    );
+
+    expect(scans.map((scan) => [scan.target, scan.results.length])).toEqual([
+      ["https://example.com", 2],
+      ["https://other.example", 1],
+    ]);
+    expect(scans[0].startedAt).toEqual(new Date("2024-01-01T10:00:00Z"));
+    expect(scans[0].finishedAt).toEqual(new Date("2024-01-01T10:05:00Z"));
+    expect(scans[0].results[0]).toMatchObject({
+      title: "Apache 2.4.49 - Path Traversal",
+      severity: "critical",
+      url: "https://example.com/cgi-bin/.%2e/etc/passwd",
+      description: "Path traversal.",
+      templateId: "CVE-2021-41773",
+      extractedResults: undefined,
+      cve: ["CVE-2021-41773"],
+      cwe: ["CWE-22"],
+      cvssScore: 9.8,
+      cvssMetrics: "CVSS:3.1/AV:N",
+      references: ["https://nvd.nist.gov/vuln/detail/CVE-2021-41773"],
+    });
+    expect(scans[1].results[0].url).toBe("https://other.example");
+  });
+
+  it("keeps info severities and leaves unknown ones unset", async () => {
+    const [scan] = await parseNucleiJsonl(jsonl(record(), record({ info: { name: "Odd", severity: "unknown" } })));
+
+    expect(scan.results.map((result) => result.severity)).toEqual(["info", undefined]);
+  });
+
+  it("truncates large raw requests and responses", async () => {
+    const [scan] = await parseNucleiJsonl(jsonl(record({ request: "GET / HTTP/1.1", response: "x".repeat(16 * 1024 + 10) })));
+
+    expect(scan.results[0].request).toBe("GET / HTTP/1.1");
+    expect(scan.results[0].response).toBe(`${"x".repeat(16 * 1024)}\n[10 more characters not imported]`);
+  });
+
+  it("names the line that is not a finding", async () => {
+    await expect(parseNucleiJsonl(jsonl(record(), "{oops"))).rejects.toThrow("Line 2 is not valid JSON");
+    await expect(parseNucleiJsonl(jsonl(record(), { host: "x" }))).rejects.toThrow(ScanImportError);
+  });
+
+  it("is detected from the first record", () => {
+    expect(nucleiJsonlImporter.detect(JSON.stringify(record()))).toBe(true);
+    expect(nucleiJsonlImporter.detect('{"vulnerabilities":[]}')).toBe(false);
+  });
+});
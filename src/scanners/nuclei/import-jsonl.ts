@@ -0,0 +1,122 @@
+import { forEachLine, ScanImportError } from "@/lib/scan-import";
+import { findingSeveritySchema, type ScanResult } from "@/lib/scan-client";
+import type { ImportedScan, ScanImporter } from "@/scanners/types";
+
+/** The parts of a `nuclei -jsonl` record SecureScan shows. */
+interface NucleiRecord {
+  "template-id"?: string;
+  info?: {
+    name?: string;
+    severity?: string;
+    description?: string;
+    remediation?: string;
+    reference?: string | string[] | null;
+    classification?: {
+      "cve-id"?: string | string[] | null;
+      "cwe-id"?: string | string[] | null;
+      "cvss-score"?: number | string;
+      "cvss-metrics"?: string;
+    };
+  };
+  host?: string;
+  "matched-at"?: string;
+  "extracted-results"?: string[];
+  "matcher-name"?: string;
+  "curl-command"?: string;
+  request?: string;
+  response?: string;
+  timestamp?: string;
+}
+
+/** Raw requests and responses are cut to this many characters, so big reports stay importable. */
+const MAX_BODY_LENGTH = 16 * 1024;
+
+/** Every finding is kept in memory and saved with its host, so larger reports are refused. */
+const MAX_FINDINGS = 50000;
+
+const truncateBody = (body: string | undefined) =>
+  body && body.length > MAX_BODY_LENGTH
+    ? `${body.slice(0, MAX_BODY_LENGTH)}\n[${body.length - MAX_BODY_LENGTH} more characters not imported]`
+    : body;
+
+// Nuclei writes single values as strings and several as arrays.
+const list = (value: string | string[] | null | undefined) => {
+  const values = (Array.isArray(value) ? value : [value]).filter(Boolean);
+  return values.length > 0 ? values : undefined;
+};
+
+function toResult(record: NucleiRecord): ScanResult {
+  const info = record.info ?? {};
+  const classification = info.classification ?? {};
+  // Nuclei's "unknown" severity has no equivalent and is left unset.
+  const severity = findingSeveritySchema.safeParse(info.severity?.toLowerCase());
+  const cvssScore = Number(classification["cvss-score"]);
+  return {
+    title: info.name ?? record["template-id"],
+    severity: severity.success ? severity.data : undefined,
+    url: record["matched-at"] ?? record.host,
+    description: info.description?.trim() || undefined,
+    templateId: record["template-id"],
+    matcherName: record["matcher-name"],
+    extractedResults: record["extracted-results"]?.length > 0 ? record["extracted-results"] : undefined,
+    curlCommand: record["curl-command"],
+    request: truncateBody(record.request),
+    response: truncateBody(record.response),
+    cve: list(classification["cve-id"])?.map((id) => id.toUpperCase()),
+    cwe: list(classification["cwe-id"])?.map((id) => id.toUpperCase()),
+    cvssScore: classification["cvss-score"] !== undefined && cvssScore >= 0 && cvssScore <= 10 ? cvssScore : undefined,
+    cvssMetrics: classification["cvss-metrics"] || undefined,
+    remediation: info.remediation?.trim() || undefined,
+    references: list(info.reference),
+  };
+}
+
+/**
+ * Reads `nuclei -jsonl` output line by line without loading the whole file,
+ * grouping findings by host. Parsed findings are kept, with their raw request
+ * and response truncated, up to {@link MAX_FINDINGS}.
+ */
+export async function parseNucleiJsonl(file: File, onProgress?: (fraction: number) => void): Promise<ImportedScan[]> {
+  const hosts = new Map<string, ImportedScan>();
+  let findings = 0;
+  await forEachLine(
+    file,
+    (line, lineNumber) => {
+      if (line.trim() === '') return;
+      let record: NucleiRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        throw new ScanImportError(`Line ${lineNumber} is not valid JSON`, { cause: error });
+      }
+      if (typeof record !== 'object' || record === null || !record["template-id"]) {
+        throw new ScanImportError(`Line ${lineNumber} is not a Nuclei finding`);
+      }
+      if (++findings > MAX_FINDINGS) {
+        throw new ScanImportError(`This report has more than ${MAX_FINDINGS} findings; split it or filter it by severity before importing`);
+      }
+
+      const target = record.host ?? record["matched-at"] ?? 'unknown';
+      let scan = hosts.get(target);
+      if (!scan) {
+        scan = { target, results: [] };
+        hosts.set(target, scan);
+      }
+      scan.results.push(toResult(record));
+      const timestamp = record.timestamp ? new Date(record.timestamp) : undefined;
+      if (timestamp && !isNaN(timestamp.getTime())) {
+        if (!scan.startedAt || timestamp < scan.startedAt) scan.startedAt = timestamp;
+        if (!scan.finishedAt || timestamp > scan.finishedAt) scan.finishedAt = timestamp;
+      }
+    },
+    onProgress
+  );
+  return [...hosts.values()];
+}
+
+export const nucleiJsonlImporter: ScanImporter = {
+  label: 'Nuclei JSONL (-jsonl)',
+  extensions: ['.jsonl', '.json'],
+  detect: (head) => /^\s*\{/.test(head) && head.includes('"template-id"'),
+  parse: parseNucleiJsonl,
+};
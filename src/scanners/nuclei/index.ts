@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { severitySchema } from "@/lib/scan-client";
+import NucleiOptionsFields from "@/scanners/nuclei/NucleiOptionsFields";
+import NucleiResults from "@/scanners/nuclei/NucleiResults";
+import { nucleiJsonlImporter } from "@/scanners/nuclei/import-jsonl";
+import type { ScannerDefinition } from "@/scanners/types";
+
+export const nucleiOptionsSchema = z.object({
+  tags: z.string().trim().regex(/^[\w\-, ]*$/, 'Tags may only contain letters, digits, - and commas'),
+  severities: z.array(severitySchema).min(1, 'Pick at least one severity'),
+  rateLimit: z.number({ invalid_type_error: 'Enter a number' }).int().min(1).max(1000),
+});
+
+export type NucleiOptions = z.infer<typeof nucleiOptionsSchema>;
+
+export const nucleiScanner: ScannerDefinition<NucleiOptions> = {
+  id: 'nuclei',
+  label: 'Web Vulnerability (Nuclei)',
+  toolName: 'Nuclei',
+  category: 'web',
+  optionsSchema: nucleiOptionsSchema,
+  defaultOptions: {
+    tags: '',
+    severities: ['critical', 'high', 'medium', 'low'],
+    rateLimit: 150,
+  },
+  OptionsFields: NucleiOptionsFields,
+  ResultsView: NucleiResults,
+  toEntity: (result) => ({
+    kind: 'finding',
+    scanner: 'nuclei',
+    ruleId: result.templateId,
+    title: result.title,
+    // Nuclei's informational findings arrive without a severity.
+    severity: result.severity ?? 'info',
+    confidence: result.confidence,
+    host: result.host,
+    location: result.url,
+    method: result.method,
+    description: result.description,
+    evidence: {
+      matcher: result.matcherName,
+      extracted: result.extractedResults,
+      request: result.request,
+      response: result.response,
+      curlCommand: result.curlCommand,
+    },
+    classification: { cve: result.cve, cwe: result.cwe, cvssScore: result.cvssScore, cvssMetrics: result.cvssMetrics },
+    remediation: result.remediation,
+    references: result.references,
+  }),
+  diff: {
+    key: (result) => `${result.title}\n${result.url ?? ''}`,
+    compare: ['severity'],
+    describe: (result) => `${result.title} (${result.url || 'no URL'})`,
+    labels: { added: 'New findings', removed: 'Resolved findings', changed: 'Severity changed' },
+  },
+  importers: [nucleiJsonlImporter],
+  demoResults: () => [
+    {
+      title: 'SSL Certificate Expiry Warning',
+      severity: 'medium',
+      url: 'https://example.com',
+      description: 'SSL certificate expires within 30 days',
+      templateId: 'ssl-cert-expiry',
+      extractedResults: ['2024-02-14T23:59:59Z'],
+      remediation: 'Renew the certificate before it expires and automate renewal.',
+      references: ['https://letsencrypt.org/docs/faq/']
+    },
+    {
+      title: 'Directory Listing Enabled',
+      severity: 'low',
+      url: 'https://example.com/assets/',
+      description: 'Directory listing is enabled and may expose sensitive files',
+      templateId: 'dir-listing',
+      matcherName: 'index-of',
+      cwe: ['CWE-548'],
+      cvssScore: 5.3,
+      cvssMetrics: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      request: 'GET /assets/ HTTP/1.1\r\nHost: example.com\r\nUser-Agent: Mozilla/5.0\r\nAccept: */*\r\n\r\n',
+      response: 'HTTP/1.1 200 OK\r\nContent-Type: text/html\r\n\r\n<html><head><title>Index of /assets</title></head>...',
+      remediation: 'Disable automatic directory indexes on the web server (e.g. "Options -Indexes" in Apache, "autoindex off" in nginx).',
+      references: ['https://cwe.mitre.org/data/definitions/548.html']
+    },
+    {
+      title: 'Missing Security Headers',
+      severity: 'medium',
+      url: 'https://example.com',
+      description: 'Missing X-Frame-Options header',
+      templateId: 'http-missing-security-headers',
+      matcherName: 'x-frame-options',
+      cwe: ['CWE-1021'],
+      remediation: 'Send "X-Frame-Options: DENY" or a frame-ancestors Content-Security-Policy directive.',
+      references: ['https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/X-Frame-Options']
+    }
+  ],
+};
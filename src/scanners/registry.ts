@@ -0,0 +1,27 @@
+import type { ScannerDefinition } from "@/scanners/types";
+
+const scanners = new Map<string, ScannerDefinition>();
+
+export function registerScanner<TOptions extends Record<string, unknown>>(scanner: ScannerDefinition<TOptions>) {
+  if (scanners.has(scanner.id)) {
+    throw new Error(`Scanner "${scanner.id}" is already registered`);
+  }
+  scanners.set(scanner.id, scanner as unknown as ScannerDefinition);
+}
+
+export function getScanner(id: string): ScannerDefinition | undefined {
+  return scanners.get(id);
+}
+
+export function requireScanner(id: string): ScannerDefinition {
+  const scanner = scanners.get(id);
+  if (!scanner) {
+    throw new Error(`Unknown scanner "${id}"`);
+  }
+  return scanner;
+}
+
+/** Registered scanners in registration order. */
+export function listScanners(): ScannerDefinition[] {
+  return [...scanners.values()];
+}
@@ -0,0 +1,23 @@
+export const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical': return 'bg-red-500/20 text-red-300 border-red-500/30';
+    case 'high': return 'bg-orange-500/20 text-orange-300 border-orange-500/30';
+    case 'medium': return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+    case 'low': return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
+    default: return 'bg-gray-500/20 text-gray-300 border-gray-500/30';
+  }
+};
+
+export const getPortStateColor = (state: string) => {
+  switch (state) {
+    case 'open': return 'text-green-400';
+    case 'closed': return 'text-red-400';
+    case 'filtered': return 'text-yellow-400';
+    default: return 'text-gray-400';
+  }
+};
+
+const SEVERITY_ORDER = ['info', 'low', 'medium', 'high', 'critical'];
+
+/** Higher is more severe; unknown severities rank below info. */
+export const severityRank = (severity: string) => SEVERITY_ORDER.indexOf(severity);
@@ -0,0 +1,73 @@
+import type { ComponentType } from "react";
+import type { z } from "zod";
+import type { ScanResult } from "@/lib/scan-client";
+import type { ScanEntityInput } from "@/lib/scan-model";
+
+export interface ScannerResultsViewProps {
+  results: ScanResult[];
+}
+
+/** How two scans by the same scanner are compared, see `src/lib/scan-diff.ts`. */
+export interface ScanDiffSpec {
+  /** Identifies the same item across two scans, e.g. the port number. */
+  key: (result: ScanResult) => string;
+  /** Only matching results take part; Nmap compares open ports only. */
+  include?: (result: ScanResult) => boolean;
+  /** Fields that mark a matched item as changed when they differ. */
+  compare: (keyof ScanResult)[];
+  /** One line naming an item in the diff view and report. */
+  describe: (result: ScanResult) => string;
+  /** Headings for items only in the newer scan, only in the older one, and changed. */
+  labels: { added: string; removed: string; changed: string };
+}
+
+/** Results for one host read from a scanner's own report file. */
+export interface ImportedScan {
+  target: string;
+  results: ScanResult[];
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/** Reads one of a scanner's native output formats in the browser. */
+export interface ScanImporter {
+  /** Shown in the import dialog, e.g. "Nmap XML (-oX)". */
+  label: string;
+  /** File extensions offered in the file picker, e.g. [".xml"]. */
+  extensions: string[];
+  /** Whether the first few kilobytes of a file look like this format. */
+  detect: (head: string) => boolean;
+  /** One entry per host in the report. */
+  parse: (file: File, onProgress?: (fraction: number) => void) => Promise<ImportedScan[]>;
+}
+
+/**
+ * Everything the UI needs to know about one scanning tool. Adding a tool means
+ * writing one of these and registering it in `src/scanners/index.ts`.
+ */
+export interface ScannerDefinition<TOptions extends Record<string, unknown> = Record<string, unknown>> {
+  /** Sent to the backend as the scan `type`. */
+  id: string;
+  /** Shown in the scan type picker, e.g. "Port Scan (Nmap)". */
+  label: string;
+  /** Tool name for headings and reports, e.g. "Nmap". */
+  toolName: string;
+  /**
+   * `network` scanners take a host and discover services; `web` scanners take a
+   * URL. Full assessments chain the former into the latter.
+   */
+  category: "network" | "web";
+  /** Validates the advanced options form; its output is sent as the scan `options`. */
+  optionsSchema: z.ZodType<TOptions, z.ZodTypeDef, unknown>;
+  defaultOptions: TOptions;
+  /** Form fields for the options, rendered inside the scan form's react-hook-form context. */
+  OptionsFields?: ComponentType;
+  ResultsView: ComponentType<ScannerResultsViewProps>;
+  /** Maps one result onto the typed host/service/finding model used by reports, see `src/lib/scan-model.ts`. */
+  toEntity: (result: ScanResult) => ScanEntityInput;
+  diff: ScanDiffSpec;
+  /** Native report formats that can be loaded without the backend. */
+  importers?: ScanImporter[];
+  /** Sample results used in demo mode. */
+  demoResults: () => ScanResult[];
+}